@@ -0,0 +1,128 @@
+import { BrowserWindow, WebContents, dialog } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Saving an export takes two steps: the renderer says which formats it can produce and the
+// save dialog picks one, then the renderer generates just that format and sends it back.
+// PNG is always offered; SVG and PDF only for pure annotations, since desktop captures are raster only.
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+
+export interface ExportTarget {
+  success: boolean;
+  format?: ExportFormat;
+  canceled?: boolean;
+  error?: string;
+}
+
+export interface ExportResult {
+  success: boolean;
+  filePath?: string;
+  canceled?: boolean;
+  error?: string;
+}
+
+const formatFilters: { [format in ExportFormat]: Electron.FileFilter } = {
+  png: { name: 'PNG Images', extensions: ['png'] },
+  svg: { name: 'SVG Images', extensions: ['svg'] },
+  pdf: { name: 'PDF Documents', extensions: ['pdf'] }
+};
+
+// File each window's export goes to, from the save dialog until its data arrives
+const pendingTargets = new Map<number, { filePath: string; format: ExportFormat }>();
+
+// The format is picked in the save dialog, by the chosen file's extension
+export async function chooseExportTarget(sender: WebContents, formats: ExportFormat[]): Promise<ExportTarget> {
+  pendingTargets.delete(sender.id);
+
+  try {
+    const filters = formats.map(format => formatFilters[format]);
+    filters.push({ name: 'All Files', extensions: ['*'] });
+
+    const window = BrowserWindow.fromWebContents(sender);
+    const options: Electron.SaveDialogOptions = {
+      title: 'Save Screenshot',
+      defaultPath: `screenshot-${Date.now()}.png`,
+      filters
+    };
+    const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    const format = getExportFormat(formats, path.extname(result.filePath).toLowerCase());
+    const filePath = format === 'png' ? withPngExtension(result.filePath) : result.filePath;
+
+    // The dialog only asked about replacing the name that was typed
+    if (filePath !== result.filePath && fs.existsSync(filePath)) {
+      const confirmOptions: Electron.MessageBoxOptions = {
+        type: 'question',
+        message: `${path.basename(filePath)} already exists. Do you want to replace it?`,
+        buttons: ['Replace', 'Cancel'],
+        defaultId: 1,
+        cancelId: 1
+      };
+      const confirm = window ? await dialog.showMessageBox(window, confirmOptions) : await dialog.showMessageBox(confirmOptions);
+      if (confirm.response !== 0) {
+        return { success: false, canceled: true };
+      }
+    }
+
+    pendingTargets.set(sender.id, { filePath, format });
+
+    return { success: true, format };
+  } catch (error) {
+    console.error('Error choosing where to save the screenshot:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+// Writes the data for the format chosen by the last chooseExportTarget from the same window
+export function writeExport(sender: WebContents, data: string | Uint8Array): ExportResult {
+  const target = pendingTargets.get(sender.id);
+  pendingTargets.delete(sender.id);
+
+  if (!target) {
+    return { success: false, error: 'No save location was chosen' };
+  }
+
+  try {
+    fs.writeFileSync(target.filePath, getExportBytes(target.format, data));
+    return { success: true, filePath: target.filePath };
+  } catch (error) {
+    console.error('Error saving screenshot:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+// Anything that isn't .svg or .pdf gets the PNG, see withPngExtension
+function getExportFormat(formats: ExportFormat[], extension: string): ExportFormat {
+  if (extension === '.svg' && formats.includes('svg')) {
+    return 'svg';
+  }
+  if (extension === '.pdf' && formats.includes('pdf')) {
+    return 'pdf';
+  }
+  return 'png';
+}
+
+// PNG data is never written under another extension: a missing one is added and a
+// different one, such as .jpg, is replaced
+function withPngExtension(filePath: string): string {
+  const extension = path.extname(filePath);
+  if (extension.toLowerCase() === '.png') {
+    return filePath;
+  }
+  return filePath.slice(0, filePath.length - extension.length) + '.png';
+}
+
+// PNGs arrive as data URLs, SVG as markup and PDF as bytes
+function getExportBytes(format: ExportFormat, data: string | Uint8Array): Buffer {
+  if (typeof data !== 'string') {
+    return Buffer.from(data);
+  }
+  if (format === 'svg') {
+    return Buffer.from(data, 'utf-8');
+  }
+  return Buffer.from(data.slice(data.indexOf(',') + 1), 'base64');
+}
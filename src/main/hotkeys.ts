@@ -0,0 +1,103 @@
+import { globalShortcut } from 'electron';
+
+export type HotkeyAction =
+  | 'toggleOverlay'
+  | 'togglePassThrough'
+  | 'clear'
+  | 'undo'
+  | 'brush'
+  | 'arrow'
+  | 'laserPointer'
+  | 'highlighter'
+  | 'screenshot';
+
+// Electron accelerator per action, an empty string leaves the action unbound
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+export interface HotkeyConflict {
+  action: HotkeyAction;
+  accelerator: string;
+  reason: string;
+}
+
+export const HOTKEY_ACTIONS: HotkeyAction[] = [
+  'toggleOverlay',
+  'togglePassThrough',
+  'clear',
+  'undo',
+  'brush',
+  'arrow',
+  'laserPointer',
+  'highlighter',
+  'screenshot'
+];
+
+// Ctrl+Alt combinations are rarely taken by other apps, unlike plain Ctrl+Shift ones
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  toggleOverlay: 'CommandOrControl+Alt+O',
+  togglePassThrough: 'CommandOrControl+Alt+P',
+  clear: 'CommandOrControl+Alt+K',
+  undo: 'CommandOrControl+Alt+Z',
+  brush: 'CommandOrControl+Alt+B',
+  arrow: 'CommandOrControl+Alt+A',
+  laserPointer: 'CommandOrControl+Alt+L',
+  highlighter: 'CommandOrControl+Alt+H',
+  screenshot: 'CommandOrControl+Alt+S'
+};
+
+// Replaces all registrations with the given bindings. Bindings that could not be
+// registered are returned so the user can pick a different combination.
+export function registerHotkeys(bindings: HotkeyBindings, onTrigger: (action: HotkeyAction) => void): HotkeyConflict[] {
+  globalShortcut.unregisterAll();
+
+  const conflicts: HotkeyConflict[] = [];
+  const claimed = new Map<string, HotkeyAction>();
+
+  for (const action of HOTKEY_ACTIONS) {
+    const accelerator = bindings[action];
+    if (!accelerator) continue;
+
+    const normalized = normalizeAccelerator(accelerator);
+    const owner = claimed.get(normalized);
+    if (owner) {
+      conflicts.push({ action, accelerator, reason: `Also bound to ${owner}` });
+      continue;
+    }
+
+    let registered = false;
+    try {
+      registered = globalShortcut.register(accelerator, () => onTrigger(action));
+    } catch (error) {
+      conflicts.push({ action, accelerator, reason: 'Not a valid key combination' });
+      continue;
+    }
+
+    // register() returns false when another application already owns the shortcut
+    if (!registered) {
+      conflicts.push({ action, accelerator, reason: 'In use by another application' });
+      continue;
+    }
+
+    claimed.set(normalized, action);
+  }
+
+  return conflicts;
+}
+
+export function unregisterHotkeys() {
+  globalShortcut.unregisterAll();
+}
+
+// 'Ctrl+Shift+X' and 'shift+control+x' describe the same shortcut
+function normalizeAccelerator(accelerator: string): string {
+  const aliases: { [key: string]: string } = {
+    ctrl: 'control',
+    cmd: 'command',
+    cmdorctrl: 'commandorcontrol',
+    option: 'alt'
+  };
+
+  const parts = accelerator.toLowerCase().split('+').map(part => aliases[part] || part);
+  const key = parts.pop();
+  return [...parts.sort(), key].join('+');
+}
@@ -0,0 +1,52 @@
+import { BrowserWindow, dialog } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ImageResult {
+  success: boolean;
+  dataUrl?: string;
+  canceled?: boolean;
+  error?: string;
+}
+
+// Formats the renderer's <img> can decode, by extension
+const imageTypes: { [extension: string]: string } = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml'
+};
+
+// Reads a picture chosen in an open dialog as a data URL, so it can be stored in the drawing itself
+export async function openImage(window: BrowserWindow | null): Promise<ImageResult> {
+  try {
+    const options: Electron.OpenDialogOptions = {
+      title: 'Insert Image',
+      filters: [
+        { name: 'Images', extensions: Object.keys(imageTypes) },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    };
+    const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    const filePath = result.filePaths[0];
+    const type = imageTypes[path.extname(filePath).slice(1).toLowerCase()];
+    if (!type) {
+      throw new Error('The file is not a supported image');
+    }
+
+    const dataUrl = `data:${type};base64,${fs.readFileSync(filePath).toString('base64')}`;
+    return { success: true, dataUrl };
+  } catch (error) {
+    console.error('Error opening image:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
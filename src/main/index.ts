@@ -1,22 +1,38 @@
-import { app, BrowserWindow, ipcMain, dialog } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, screen, desktopCapturer, clipboard, nativeImage, Menu, Display, MenuItemConstructorOptions } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
+import { getSettings, updateSettings, SettingsSection, DisplaySettings } from './settings';
+import { openSession, saveSession, SessionDocument } from './session';
+import { chooseExportTarget, writeExport, ExportFormat } from './export';
+import { openImage } from './images';
+import { registerHotkeys, unregisterHotkeys, DEFAULT_HOTKEYS, HotkeyAction, HotkeyBindings, HotkeyConflict } from './hotkeys';
 
-let mainWindow: BrowserWindow | null = null;
+// One overlay window per display it covers, keyed by display id
+const overlayWindows = new Map<number, BrowserWindow>();
 let whiteboardWindow: BrowserWindow | null = null;
 let isPassThroughEnabled = false;
-let isMouseOverToolbar = false;
+const toolbarHoverWindows = new Set<number>(); // webContents ids with the mouse over their toolbar
+let hotkeyConflicts: HotkeyConflict[] = [];
 
-function createWindow() {
-  const { screen } = require('electron');
-  const primaryDisplay = screen.getPrimaryDisplay();
-  const { width, height } = primaryDisplay.bounds;
+// Latest annotations when all displays share one drawing, in screen coordinates
+let sharedOverlayState: Array<{ id: string }> = [];
+let followCursorTimer: NodeJS.Timeout | null = null;
+const followCursorInterval = 250; // ms, there is no global mouse move event to listen to
+const captureDelay = 150; // ms for hidden overlays to disappear from the screen before capturing it
 
-  mainWindow = new BrowserWindow({
+// Whiteboard mirror mode: each overlay reports its drawing, in screen coordinates,
+// keyed by webContents id, and the whiteboard shows all of them
+let isMirrorEnabled = false;
+const mirrorStates = new Map<number, Array<{ id: string }>>();
+
+function createOverlayWindow(display: Display): BrowserWindow {
+  const { x, y, width, height } = display.bounds;
+
+  const overlayWindow = new BrowserWindow({
     width: width,
     height: height,
-    x: 0,
-    y: 0,
+    x: x,
+    y: y,
     transparent: true,
     frame: false,
     alwaysOnTop: true,
@@ -37,9 +53,9 @@ function createWindow() {
 
   // Set the window to be always on top at the highest level
   // Use 'floating' level for better compatibility with fullscreen apps
-  mainWindow.setAlwaysOnTop(true, 'floating', 1);
-  mainWindow.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
-  mainWindow.setFullScreenable(false);
+  overlayWindow.setAlwaysOnTop(true, 'floating', 1);
+  overlayWindow.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
+  overlayWindow.setFullScreenable(false);
 
   // Additional settings for macOS to ensure overlay stays on top
   if (process.platform === 'darwin') {
@@ -47,23 +63,200 @@ function createWindow() {
 
     // Set window level to maximum to stay above fullscreen apps
     // @ts-ignore - macOS specific API
-    if (mainWindow.setWindowButtonVisibility) {
+    if (overlayWindow.setWindowButtonVisibility) {
       // @ts-ignore
-      mainWindow.setWindowButtonVisibility(false);
+      overlayWindow.setWindowButtonVisibility(false);
     }
   }
 
-  mainWindow.loadFile(path.join(__dirname, '../renderer/index.html'));
+  overlayWindow.loadFile(path.join(__dirname, '../renderer/index.html'));
+
+  // Hotkeys and displays are set up before the page loads, so send their state once it can receive it
+  const webContentsId = overlayWindow.webContents.id;
+  overlayWindow.webContents.on('did-finish-load', () => {
+    overlayWindow.webContents.send('hotkey-conflicts', hotkeyConflicts);
+    overlayWindow.webContents.send('pass-through-changed', isPassThroughEnabled);
+    sendDisplayInfo(overlayWindow);
+
+    if (isStateShared()) {
+      overlayWindow.webContents.send('overlay-state', sharedOverlayState);
+    }
+    overlayWindow.webContents.send('mirror-mode-changed', isMirrorEnabled);
+  });
 
   // Open DevTools in development
   if (process.env.NODE_ENV === 'development') {
-    mainWindow.webContents.openDevTools({ mode: 'detach' });
+    overlayWindow.webContents.openDevTools({ mode: 'detach' });
   }
 
   // Handle window close - IMPORTANT: Actually close the window
-  mainWindow.on('closed', () => {
-    mainWindow = null;
+  overlayWindow.on('closed', () => {
+    toolbarHoverWindows.delete(webContentsId);
+    for (const [displayId, window] of overlayWindows) {
+      if (window === overlayWindow) {
+        overlayWindows.delete(displayId);
+      }
+    }
+    if (mirrorStates.delete(webContentsId)) {
+      sendMirrorState();
+    }
   });
+
+  return overlayWindow;
+}
+
+// Creates, moves and closes overlay windows so they match the display settings
+function layoutOverlayWindows() {
+  const settings = getSettings('display');
+  const displays = screen.getAllDisplays();
+
+  let targets: Display[];
+  if (settings.mode === 'all') {
+    targets = displays;
+  } else if (settings.mode === 'follow') {
+    targets = [screen.getDisplayNearestPoint(screen.getCursorScreenPoint())];
+  } else {
+    // Fall back to the primary display while the chosen one is disconnected
+    targets = [displays.find(display => display.id === settings.displayId) || screen.getPrimaryDisplay()];
+  }
+
+  // Windows on displays that are no longer covered get reused first, so a single
+  // overlay moving to another display keeps its drawing
+  const targetIds = new Set(targets.map(display => display.id));
+  const spareWindows: BrowserWindow[] = [];
+  for (const [displayId, window] of overlayWindows) {
+    if (!targetIds.has(displayId)) {
+      overlayWindows.delete(displayId);
+      spareWindows.push(window);
+    }
+  }
+
+  for (const display of targets) {
+    let overlayWindow = overlayWindows.get(display.id);
+    if (!overlayWindow) {
+      overlayWindow = spareWindows.shift() || createOverlayWindow(display);
+      overlayWindows.set(display.id, overlayWindow);
+    }
+    placeOverlayWindow(overlayWindow, display);
+  }
+
+  for (const window of spareWindows) {
+    window.destroy();
+  }
+
+  updateFollowCursor(settings);
+  updateMouseEvents();
+  sendMirrorState();
+}
+
+function placeOverlayWindow(overlayWindow: BrowserWindow, display: Display) {
+  const bounds = overlayWindow.getBounds();
+  const target = display.bounds;
+  if (bounds.x !== target.x || bounds.y !== target.y || bounds.width !== target.width || bounds.height !== target.height) {
+    overlayWindow.setBounds(target);
+  }
+
+  if (!overlayWindow.webContents.isLoading()) {
+    sendDisplayInfo(overlayWindow);
+  }
+}
+
+// Lets the renderer convert between its own and screen coordinates
+function sendDisplayInfo(overlayWindow: BrowserWindow) {
+  const display = getOverlayDisplay(overlayWindow);
+  if (!display) return;
+
+  overlayWindow.webContents.send('display-info', {
+    id: display.id,
+    bounds: display.bounds,
+    scaleFactor: display.scaleFactor,
+    sharedState: isStateShared()
+  });
+}
+
+function isStateShared(): boolean {
+  const settings = getSettings('display');
+  return settings.mode === 'all' && settings.sharedState;
+}
+
+function getOverlayDisplay(overlayWindow: BrowserWindow): Display | null {
+  for (const [displayId, window] of overlayWindows) {
+    if (window === overlayWindow) {
+      return screen.getAllDisplays().find(display => display.id === displayId) || null;
+    }
+  }
+  return null;
+}
+
+// The overlay on the display under the pointer, which is where hotkey actions apply
+function getActiveOverlayWindow(): BrowserWindow | null {
+  const display = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+  return overlayWindows.get(display.id) || overlayWindows.values().next().value || null;
+}
+
+function updateFollowCursor(settings: DisplaySettings) {
+  if (settings.mode === 'follow' && !followCursorTimer) {
+    followCursorTimer = setInterval(() => {
+      const display = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+      if (!overlayWindows.has(display.id)) {
+        layoutOverlayWindows();
+      }
+    }, followCursorInterval);
+  } else if (settings.mode !== 'follow' && followCursorTimer) {
+    clearInterval(followCursorTimer);
+    followCursorTimer = null;
+  }
+}
+
+function setDisplaySettings(values: Partial<DisplaySettings>) {
+  const previous = getSettings('display');
+  updateSettings('display', values);
+
+  // Overlays that start sharing merge their drawings into a fresh shared state
+  const settings = getSettings('display');
+  if (settings.sharedState !== previous.sharedState || settings.mode !== previous.mode) {
+    sharedOverlayState = [];
+  }
+
+  layoutOverlayWindows();
+}
+
+function showDisplayMenu(overlayWindow: BrowserWindow | null) {
+  const settings = getSettings('display');
+  const primaryId = screen.getPrimaryDisplay().id;
+  const currentId = settings.displayId ?? primaryId;
+
+  // Checkboxes instead of radio items - radio groups are split by the separator
+  const template: MenuItemConstructorOptions[] = screen.getAllDisplays().map((display, index) => ({
+    label: `Display ${index + 1} (${display.size.width}×${display.size.height})${display.id === primaryId ? ' - Primary' : ''}`,
+    type: 'checkbox',
+    checked: settings.mode === 'single' && currentId === display.id,
+    click: () => setDisplaySettings({ mode: 'single', displayId: display.id })
+  }));
+
+  template.push(
+    { type: 'separator' },
+    {
+      label: 'All Displays - Separate Drawings',
+      type: 'checkbox',
+      checked: settings.mode === 'all' && !settings.sharedState,
+      click: () => setDisplaySettings({ mode: 'all', sharedState: false })
+    },
+    {
+      label: 'All Displays - Shared Drawing',
+      type: 'checkbox',
+      checked: settings.mode === 'all' && settings.sharedState,
+      click: () => setDisplaySettings({ mode: 'all', sharedState: true })
+    },
+    {
+      label: 'Follow Cursor',
+      type: 'checkbox',
+      checked: settings.mode === 'follow',
+      click: () => setDisplaySettings({ mode: 'follow' })
+    }
+  );
+
+  Menu.buildFromTemplate(template).popup(overlayWindow ? { window: overlayWindow } : {});
 }
 
 function createWhiteboardWindow() {
@@ -101,16 +294,80 @@ function createWhiteboardWindow() {
 
   whiteboardWindow.on('closed', () => {
     whiteboardWindow = null;
+    setMirrorMode(false);
+  });
+}
+
+// Runs once the whiteboard can receive messages, opening it first if needed
+function withWhiteboard(callback: (window: BrowserWindow) => void) {
+  if (!whiteboardWindow || whiteboardWindow.isDestroyed()) {
+    createWhiteboardWindow();
+  }
+
+  const window = whiteboardWindow!;
+  if (window.webContents.isLoading()) {
+    window.webContents.once('did-finish-load', () => callback(window));
+  } else {
+    callback(window);
+  }
+}
+
+function setMirrorMode(enabled: boolean) {
+  isMirrorEnabled = enabled;
+  if (!enabled) {
+    mirrorStates.clear();
+  }
+
+  // Overlays only report their drawing while the whiteboard mirrors them
+  for (const overlayWindow of overlayWindows.values()) {
+    overlayWindow.webContents.send('mirror-mode-changed', enabled);
+  }
+}
+
+// Sends the overlays' drawings to the whiteboard, relative to the top-left of the area they cover
+function sendMirrorState() {
+  if (!isMirrorEnabled || !whiteboardWindow || whiteboardWindow.isDestroyed()) return;
+
+  const displays = screen.getAllDisplays().filter(display => overlayWindows.has(display.id));
+  if (displays.length === 0) return;
+
+  const left = Math.min(...displays.map(display => display.bounds.x));
+  const top = Math.min(...displays.map(display => display.bounds.y));
+  const right = Math.max(...displays.map(display => display.bounds.x + display.bounds.width));
+  const bottom = Math.max(...displays.map(display => display.bounds.y + display.bounds.height));
+
+  // Overlays sharing one drawing all report the same objects
+  const objects = new Map<string, { id: string }>();
+  for (const state of mirrorStates.values()) {
+    for (const obj of state) {
+      objects.set(obj.id, obj);
+    }
+  }
+
+  whiteboardWindow.webContents.send('mirror-state', {
+    objects: Array.from(objects.values()),
+    area: { x: left, y: top, width: right - left, height: bottom - top }
   });
 }
 
 // Create window when app is ready
 app.whenReady().then(() => {
-  createWindow();
+  layoutOverlayWindows();
+  applyHotkeys();
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
-      createWindow();
+      layoutOverlayWindows();
+    }
+  });
+
+  // Keep overlays matched to the connected displays
+  screen.on('display-added', () => layoutOverlayWindows());
+  screen.on('display-removed', () => layoutOverlayWindows());
+  screen.on('display-metrics-changed', (event, display, changedMetrics) => {
+    // Resolution, arrangement or scale factor changes move or resize the overlay on that display
+    if (changedMetrics.some(metric => metric === 'bounds' || metric === 'scaleFactor')) {
+      layoutOverlayWindows();
     }
   });
 });
@@ -119,41 +376,189 @@ app.whenReady().then(() => {
 ipcMain.on('toggle-click-through', (event, enabled: boolean) => {
   isPassThroughEnabled = enabled;
   updateMouseEvents();
+
+  // Pass-through applies to every overlay, keep the other toolbars in sync
+  for (const overlayWindow of overlayWindows.values()) {
+    if (overlayWindow.webContents !== event.sender) {
+      overlayWindow.webContents.send('pass-through-changed', isPassThroughEnabled);
+    }
+  }
 });
 
 // Handle mouse over toolbar
 ipcMain.on('mouse-over-toolbar', (event, isOver: boolean) => {
-  isMouseOverToolbar = isOver;
+  if (isOver) {
+    toolbarHoverWindows.add(event.sender.id);
+  } else {
+    toolbarHoverWindows.delete(event.sender.id);
+  }
   updateMouseEvents();
 });
 
 // Update mouse event handling based on state
 function updateMouseEvents() {
-  if (!mainWindow) return;
-
-  if (isPassThroughEnabled) {
-    // If pass-through is enabled but mouse is over toolbar, capture events
-    if (isMouseOverToolbar) {
-      mainWindow.setIgnoreMouseEvents(false);
+  for (const overlayWindow of overlayWindows.values()) {
+    if (isPassThroughEnabled) {
+      // If pass-through is enabled but mouse is over toolbar, capture events
+      if (toolbarHoverWindows.has(overlayWindow.webContents.id)) {
+        overlayWindow.setIgnoreMouseEvents(false);
+      } else {
+        // Mouse is not over toolbar, enable click-through
+        overlayWindow.setIgnoreMouseEvents(true, { forward: true });
+      }
     } else {
-      // Mouse is not over toolbar, enable click-through
-      mainWindow.setIgnoreMouseEvents(true, { forward: true });
+      // Pass-through is disabled, always capture events
+      overlayWindow.setIgnoreMouseEvents(false);
     }
-  } else {
-    // Pass-through is disabled, always capture events
-    mainWindow.setIgnoreMouseEvents(false);
   }
 }
 
-// Handle screenshot save
-ipcMain.handle('save-screenshot', async (event, dataUrl: string) => {
+// Register the configured global hotkeys, they work while another app has focus
+function applyHotkeys() {
+  hotkeyConflicts = registerHotkeys(getSettings('hotkeys'), handleHotkey);
+
+  for (const conflict of hotkeyConflicts) {
+    console.warn(`Hotkey ${conflict.accelerator} for ${conflict.action} not registered: ${conflict.reason}`);
+  }
+
+  for (const overlayWindow of overlayWindows.values()) {
+    overlayWindow.webContents.send('hotkey-conflicts', hotkeyConflicts);
+  }
+}
+
+function handleHotkey(action: HotkeyAction) {
+  const activeWindow = getActiveOverlayWindow();
+  if (!activeWindow) return;
+
+  switch (action) {
+    case 'toggleOverlay': {
+      const isVisible = activeWindow.isVisible();
+      for (const overlayWindow of overlayWindows.values()) {
+        if (isVisible) {
+          overlayWindow.hide();
+        } else {
+          // Don't steal focus from the app being annotated
+          overlayWindow.showInactive();
+        }
+      }
+      break;
+    }
+
+    case 'togglePassThrough':
+      // The overlay can't receive input while passing clicks through, so this is handled here
+      isPassThroughEnabled = !isPassThroughEnabled;
+      updateMouseEvents();
+      for (const overlayWindow of overlayWindows.values()) {
+        overlayWindow.webContents.send('pass-through-changed', isPassThroughEnabled);
+      }
+      break;
+
+    default:
+      // Everything else acts on the drawing, which lives in the renderer
+      if (!activeWindow.isVisible()) {
+        activeWindow.showInactive();
+      }
+      activeWindow.webContents.send('hotkey', action);
+  }
+}
+
+// Handle screenshot save: the dialog offers PNG and any of SVG or PDF the renderer can produce,
+// then the renderer sends the picked format's data
+ipcMain.handle('choose-export-target', (event, formats: ExportFormat[]) => {
+  return chooseExportTarget(event.sender, formats);
+});
+
+ipcMain.handle('write-export', (event, data: string | Uint8Array) => {
+  return writeExport(event.sender, data);
+});
+
+// Pick a picture to insert as an image object
+ipcMain.handle('open-image', (event) => {
+  return openImage(BrowserWindow.fromWebContents(event.sender));
+});
+
+// Clipboard for copy and paste in both windows. Objects travel as tagged JSON text, pictures as PNG.
+ipcMain.handle('read-clipboard', () => {
+  const image = clipboard.readImage();
+  return { text: clipboard.readText(), image: image.isEmpty() ? null : image.toDataURL() };
+});
+
+ipcMain.on('write-clipboard', (event, data: { text?: string; image?: string }) => {
+  const contents: Electron.Data = {};
+  if (data.text) {
+    contents.text = data.text;
+  }
+  if (data.image) {
+    contents.image = nativeImage.createFromDataURL(data.image);
+  }
+  clipboard.write(contents);
+});
+
+// Capture what the sender's overlay covers, for screenshots of the desktop with the annotations on top
+ipcMain.handle('capture-desktop', async (event) => {
+  const overlayWindow = BrowserWindow.fromWebContents(event.sender);
+  const display = overlayWindow ? getOverlayDisplay(overlayWindow) : null;
+  if (!display) {
+    return { success: false, error: 'No display found for this overlay' };
+  }
+
+  // Hide the overlays so only what is underneath them gets captured
+  const hiddenWindows = Array.from(overlayWindows.values()).filter(window => window.isVisible());
+  for (const window of hiddenWindows) {
+    window.hide();
+  }
+
   try {
-    // Show save dialog
-    const result = await dialog.showSaveDialog(mainWindow!, {
-      title: 'Save Screenshot',
-      defaultPath: `screenshot-${Date.now()}.png`,
+    await new Promise(resolve => setTimeout(resolve, captureDelay));
+
+    const sources = await desktopCapturer.getSources({
+      types: ['screen'],
+      thumbnailSize: {
+        width: Math.round(display.size.width * display.scaleFactor),
+        height: Math.round(display.size.height * display.scaleFactor)
+      }
+    });
+
+    const screenSource = sources.find(source => source.display_id === String(display.id)) || sources[0];
+    if (!screenSource) {
+      return { success: false, error: 'No screen available to capture' };
+    }
+
+    return { success: true, screen: screenSource.thumbnail.toDataURL() };
+  } catch (error) {
+    console.error('Error capturing desktop:', error);
+    return { success: false, error: (error as Error).message };
+  } finally {
+    for (const window of hiddenWindows) {
+      window.showInactive();
+    }
+  }
+});
+
+// Handle recordings
+// The screen source behind the sender's overlay, for recording the desktop underneath the annotations
+ipcMain.handle('get-desktop-source', async (event) => {
+  const overlayWindow = BrowserWindow.fromWebContents(event.sender);
+  const display = overlayWindow ? getOverlayDisplay(overlayWindow) : null;
+
+  const sources = await desktopCapturer.getSources({ types: ['screen'], thumbnailSize: { width: 0, height: 0 } });
+  const source = sources.find(s => display && s.display_id === String(display.id)) || sources[0];
+  return source ? source.id : null;
+});
+
+// Keeps the overlay out of its own desktop recording, where it would otherwise show up twice.
+// Not supported on Linux.
+ipcMain.on('exclude-from-capture', (event, excluded: boolean) => {
+  BrowserWindow.fromWebContents(event.sender)?.setContentProtection(excluded);
+});
+
+ipcMain.handle('save-recording', async (event, data: Uint8Array) => {
+  try {
+    const result = await dialog.showSaveDialog(BrowserWindow.fromWebContents(event.sender)!, {
+      title: 'Save Recording',
+      defaultPath: `recording-${Date.now()}.webm`,
       filters: [
-        { name: 'PNG Images', extensions: ['png'] },
+        { name: 'WebM Videos', extensions: ['webm'] },
         { name: 'All Files', extensions: ['*'] }
       ]
     });
@@ -162,16 +567,11 @@ ipcMain.handle('save-screenshot', async (event, dataUrl: string) => {
       return { success: false, canceled: true };
     }
 
-    // Convert data URL to buffer
-    const base64Data = dataUrl.replace(/^data:image\/png;base64,/, '');
-    const buffer = Buffer.from(base64Data, 'base64');
-
-    // Write file
-    fs.writeFileSync(result.filePath, buffer);
+    fs.writeFileSync(result.filePath, Buffer.from(data));
 
     return { success: true, filePath: result.filePath };
   } catch (error) {
-    console.error('Error saving screenshot:', error);
+    console.error('Error saving recording:', error);
     return { success: false, error: (error as Error).message };
   }
 });
@@ -181,18 +581,113 @@ ipcMain.on('open-whiteboard', () => {
   createWhiteboardWindow();
 });
 
+// Handle session files
+ipcMain.handle('open-session', (event) => {
+  return openSession(BrowserWindow.fromWebContents(event.sender));
+});
+
+ipcMain.handle('save-session', (event, document: SessionDocument, filePath: string | null) => {
+  return saveSession(BrowserWindow.fromWebContents(event.sender), document, filePath);
+});
+
+ipcMain.handle('save-session-as', (event, document: SessionDocument) => {
+  return saveSession(BrowserWindow.fromWebContents(event.sender), document, null);
+});
+
+// Handle persisted settings
+ipcMain.handle('get-settings', (event, section: SettingsSection) => {
+  return getSettings(section);
+});
+
+ipcMain.on('update-settings', (event, section: SettingsSection, values: object) => {
+  updateSettings(section, values);
+});
+
+// Handle display selection
+ipcMain.on('show-display-menu', (event) => {
+  showDisplayMenu(BrowserWindow.fromWebContents(event.sender));
+});
+
+// Relay annotations between overlays when all displays share one drawing.
+// 'merge' adds the objects to the shared state instead of replacing it, which is
+// how each overlay contributes its existing drawing when sharing is turned on.
+ipcMain.on('overlay-state-changed', (event, objects: Array<{ id: string }>, merge: boolean) => {
+  if (!isStateShared()) return;
+
+  if (merge) {
+    const ids = new Set(objects.map(obj => obj.id));
+    sharedOverlayState = sharedOverlayState.filter(obj => !ids.has(obj.id)).concat(objects);
+  } else {
+    sharedOverlayState = objects;
+  }
+
+  for (const overlayWindow of overlayWindows.values()) {
+    if (merge || overlayWindow.webContents !== event.sender) {
+      overlayWindow.webContents.send('overlay-state', sharedOverlayState);
+    }
+  }
+});
+
+// Copy annotations between the overlay and the whiteboard. Objects are sent in the
+// sender's coordinates, the receiver places them in view.
+ipcMain.on('send-to-whiteboard', (event, objects: object[]) => {
+  withWhiteboard(window => window.webContents.send('receive-objects', objects));
+});
+
+ipcMain.on('send-to-overlay', (event, objects: object[]) => {
+  const overlayWindow = getActiveOverlayWindow();
+  if (!overlayWindow) return;
+
+  if (!overlayWindow.isVisible()) {
+    overlayWindow.showInactive();
+  }
+  overlayWindow.webContents.send('receive-objects', objects);
+});
+
+// Handle whiteboard mirror mode
+ipcMain.on('set-mirror-mode', (event, enabled: boolean) => {
+  setMirrorMode(enabled);
+});
+
+ipcMain.on('mirror-state-changed', (event, objects: Array<{ id: string }>) => {
+  if (!isMirrorEnabled) return;
+
+  mirrorStates.set(event.sender.id, objects);
+  sendMirrorState();
+});
+
+// Handle hotkey configuration
+ipcMain.handle('get-hotkeys', () => {
+  return { bindings: getSettings('hotkeys'), defaults: DEFAULT_HOTKEYS, conflicts: hotkeyConflicts };
+});
+
+ipcMain.handle('set-hotkeys', (event, bindings: HotkeyBindings) => {
+  updateSettings('hotkeys', bindings);
+  applyHotkeys();
+  return hotkeyConflicts;
+});
+
 // Quit when all windows are closed (works on all platforms)
 app.on('window-all-closed', () => {
   app.quit();
 });
 
+// Global shortcuts stay registered with the OS until they are released explicitly
+app.on('will-quit', () => {
+  unregisterHotkeys();
+});
+
 // Handle quit properly
 app.on('before-quit', () => {
   // Clean up any resources here
-  if (mainWindow) {
-    mainWindow.destroy();
-    mainWindow = null;
+  if (followCursorTimer) {
+    clearInterval(followCursorTimer);
+    followCursorTimer = null;
+  }
+  for (const overlayWindow of overlayWindows.values()) {
+    overlayWindow.destroy();
   }
+  overlayWindows.clear();
   if (whiteboardWindow) {
     whiteboardWindow.destroy();
     whiteboardWindow = null;
@@ -0,0 +1,112 @@
+import { BrowserWindow, dialog } from 'electron';
+import * as fs from 'fs';
+
+// Session files (.spencil) are plain JSON, see "Session File Format" in the README.
+// Bump the version when the document shape changes and add a migration below.
+export const SESSION_EXTENSION = 'spencil';
+export const SESSION_VERSION = 1;
+
+export interface SessionDocument {
+  format: 'spencil';
+  version: number;
+  canvas: { width: number; height: number }; // CSS pixels of the canvas the session was drawn on
+  background: string;
+  grid: string;
+  objects: object[];
+  pages?: Array<{ background: string; grid: string; objects: object[] }>; // Whiteboard pages after the first
+}
+
+export interface SessionResult {
+  success: boolean;
+  filePath?: string;
+  document?: SessionDocument;
+  canceled?: boolean;
+  error?: string;
+}
+
+const fileFilters = [
+  { name: 'Annotation Sessions', extensions: [SESSION_EXTENSION] },
+  { name: 'All Files', extensions: ['*'] }
+];
+
+// Each migration upgrades a document of the previous version to its own version
+const migrations: { [version: number]: (document: any) => void } = {};
+
+export async function openSession(window: BrowserWindow | null): Promise<SessionResult> {
+  try {
+    const options: Electron.OpenDialogOptions = {
+      title: 'Open Session',
+      filters: fileFilters,
+      properties: ['openFile']
+    };
+    const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true };
+    }
+
+    const filePath = result.filePaths[0];
+    const document = parseSession(fs.readFileSync(filePath, 'utf-8'));
+    return { success: true, filePath, document };
+  } catch (error) {
+    console.error('Error opening session:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+// Writes to filePath, or asks for a location first when there is none (Save As)
+export async function saveSession(window: BrowserWindow | null, document: SessionDocument, filePath: string | null): Promise<SessionResult> {
+  try {
+    if (!filePath) {
+      const options: Electron.SaveDialogOptions = {
+        title: 'Save Session',
+        defaultPath: `session-${Date.now()}.${SESSION_EXTENSION}`,
+        filters: fileFilters
+      };
+      const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, canceled: true };
+      }
+      filePath = result.filePath;
+    }
+
+    const output: SessionDocument = { ...document, format: 'spencil', version: SESSION_VERSION };
+    fs.writeFileSync(filePath, JSON.stringify(output, null, 2), 'utf-8');
+
+    return { success: true, filePath };
+  } catch (error) {
+    console.error('Error saving session:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+function parseSession(text: string): SessionDocument {
+  let document: any;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not a valid session file');
+  }
+
+  if (!document || document.format !== 'spencil' || typeof document.version !== 'number') {
+    throw new Error('The file is not a valid session file');
+  }
+  if (document.version > SESSION_VERSION) {
+    throw new Error('The session was saved by a newer version of the app');
+  }
+
+  for (let version = document.version + 1; version <= SESSION_VERSION; version++) {
+    const migration = migrations[version];
+    if (migration) {
+      migration(document);
+    }
+  }
+  document.version = SESSION_VERSION;
+
+  if (!Array.isArray(document.objects)) {
+    throw new Error('The session file has no objects list');
+  }
+
+  return document as SessionDocument;
+}
@@ -0,0 +1,222 @@
+import Store from 'electron-store';
+import { DEFAULT_HOTKEYS, HOTKEY_ACTIONS, HotkeyBindings } from './hotkeys';
+
+// Bump when the shape of the stored settings changes and add a migration below
+const SETTINGS_VERSION = 1;
+
+export interface OverlaySettings {
+  tool: string;
+  color: string;
+  size: number;
+  fontSize: number;
+  fontFamily: string;
+  smoothing: 'off' | 'low' | 'medium' | 'high'; // How much brush strokes are evened out
+  smartShapes: boolean; // Turn roughly drawn shapes into clean ones
+  eraserMode: 'stroke' | 'partial';
+  redactStyle: 'blur' | 'pixelate';
+  markerOpacity: number;
+  straightMarker: boolean; // Marker strokes are straight lines
+  spotlightShape: 'circle' | 'rect' | 'roundRect'; // Highlighter spotlight
+  spotlightDim: number; // Opacity of the dimmed screen around the spotlight
+  spotlightDimColor: string;
+  fadingInk: boolean; // New annotations fade out on their own
+  fadeDelay: number; // Seconds before fading ink starts to fade
+  keyDisplayPosition: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  background: string;
+  grid: string;
+  toolbarPosition: { x: number; y: number } | null;
+  exportScale: 'native' | '1x';
+  recordDesktop: boolean; // Record the desktop underneath the annotations
+  screenshotMode: 'annotations' | 'screen' | 'region' | 'window'; // Used by the screenshot hotkey. 'window' is no longer offered and reads as 'screen'
+}
+
+export interface WhiteboardSettings {
+  tool: string;
+  color: string;
+  size: number;
+  fontSize: number;
+  smoothing: 'off' | 'low' | 'medium' | 'high';
+  smartShapes: boolean;
+  eraserMode: 'stroke' | 'partial';
+  backgroundColor: string;
+  gridType: 'none' | 'dots' | 'lines';
+  exportScale: 'native' | '1x';
+}
+
+export interface DisplaySettings {
+  mode: 'single' | 'all' | 'follow'; // One chosen display, one overlay per display, or the display under the cursor
+  displayId: number | null; // Display used in 'single' mode, null for the primary display
+  sharedState: boolean; // In 'all' mode, whether the overlays show one drawing spanning every display
+}
+
+export interface AppSettings {
+  schemaVersion: number;
+  overlay: OverlaySettings;
+  whiteboard: WhiteboardSettings;
+  hotkeys: HotkeyBindings;
+  display: DisplaySettings;
+}
+
+export type SettingsSection = 'overlay' | 'whiteboard' | 'hotkeys' | 'display';
+
+const defaults: AppSettings = {
+  schemaVersion: SETTINGS_VERSION,
+  overlay: {
+    tool: 'brush',
+    color: '#ff0000',
+    size: 5,
+    fontSize: 24,
+    fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
+    smoothing: 'low',
+    smartShapes: false,
+    eraserMode: 'stroke',
+    redactStyle: 'blur',
+    markerOpacity: 0.4,
+    straightMarker: false,
+    spotlightShape: 'circle',
+    spotlightDim: 0.6,
+    spotlightDimColor: '#000000',
+    fadingInk: false,
+    fadeDelay: 5,
+    keyDisplayPosition: 'bottom-right',
+    background: 'transparent',
+    grid: 'none',
+    toolbarPosition: null,
+    exportScale: 'native',
+    recordDesktop: false,
+    screenshotMode: 'annotations'
+  },
+  whiteboard: {
+    tool: 'brush',
+    color: '#000000',
+    size: 5,
+    fontSize: 24,
+    smoothing: 'low',
+    smartShapes: false,
+    eraserMode: 'partial',
+    backgroundColor: '#ffffff',
+    gridType: 'none',
+    exportScale: 'native'
+  },
+  hotkeys: DEFAULT_HOTKEYS,
+  display: {
+    mode: 'single',
+    displayId: null,
+    sharedState: false
+  }
+};
+
+const schema: Store.Schema<AppSettings> = {
+  schemaVersion: { type: 'number', minimum: 1 },
+  overlay: {
+    type: 'object',
+    properties: {
+      tool: { type: 'string' },
+      color: { type: 'string' },
+      size: { type: 'number', minimum: 1, maximum: 100 },
+      fontSize: { type: 'number', minimum: 6, maximum: 400 },
+      fontFamily: { type: 'string' },
+      smoothing: { type: 'string', enum: ['off', 'low', 'medium', 'high'] },
+      smartShapes: { type: 'boolean' },
+      eraserMode: { type: 'string', enum: ['stroke', 'partial'] },
+      redactStyle: { type: 'string', enum: ['blur', 'pixelate'] },
+      markerOpacity: { type: 'number', enum: [0.25, 0.4, 0.6] },
+      straightMarker: { type: 'boolean' },
+      spotlightShape: { type: 'string', enum: ['circle', 'rect', 'roundRect'] },
+      spotlightDim: { type: 'number', enum: [0.4, 0.6, 0.8] },
+      spotlightDimColor: { type: 'string' },
+      fadingInk: { type: 'boolean' },
+      fadeDelay: { type: 'number', enum: [3, 5, 10, 30] },
+      keyDisplayPosition: { type: 'string', enum: ['top-left', 'top-right', 'bottom-left', 'bottom-right'] },
+      background: { type: 'string' },
+      grid: { type: 'string' },
+      toolbarPosition: {
+        type: ['object', 'null'],
+        properties: {
+          x: { type: 'number' },
+          y: { type: 'number' }
+        },
+        required: ['x', 'y']
+      },
+      exportScale: { type: 'string', enum: ['native', '1x'] },
+      recordDesktop: { type: 'boolean' },
+      screenshotMode: { type: 'string', enum: ['annotations', 'screen', 'region', 'window'] }
+    }
+  },
+  whiteboard: {
+    type: 'object',
+    properties: {
+      tool: { type: 'string' },
+      color: { type: 'string' },
+      size: { type: 'number', minimum: 1, maximum: 100 },
+      fontSize: { type: 'number', minimum: 6, maximum: 400 },
+      smoothing: { type: 'string', enum: ['off', 'low', 'medium', 'high'] },
+      smartShapes: { type: 'boolean' },
+      eraserMode: { type: 'string', enum: ['stroke', 'partial'] },
+      backgroundColor: { type: 'string' },
+      gridType: { type: 'string', enum: ['none', 'dots', 'lines'] },
+      exportScale: { type: 'string', enum: ['native', '1x'] }
+    }
+  },
+  hotkeys: {
+    type: 'object',
+    properties: Object.fromEntries(HOTKEY_ACTIONS.map(action => [action, { type: 'string' }]))
+  },
+  display: {
+    type: 'object',
+    properties: {
+      mode: { type: 'string', enum: ['single', 'all', 'follow'] },
+      displayId: { type: ['number', 'null'] },
+      sharedState: { type: 'boolean' }
+    }
+  }
+};
+
+// Each migration upgrades settings stored with the previous schema version to its own version.
+// Example: 2: (settings) => { settings.overlay.newField = settings.overlay.oldField; }
+const migrations: { [version: number]: (settings: any) => void } = {};
+
+let store: Store<AppSettings> | null = null;
+
+function getStore(): Store<AppSettings> {
+  if (!store) {
+    store = new Store<AppSettings>({ name: 'settings', defaults, schema, clearInvalidConfig: true });
+    migrate(store);
+  }
+  return store;
+}
+
+function migrate(target: Store<AppSettings>) {
+  const storedVersion = target.get('schemaVersion', SETTINGS_VERSION);
+  if (storedVersion >= SETTINGS_VERSION) return;
+
+  const settings = target.store as any;
+  for (let version = storedVersion + 1; version <= SETTINGS_VERSION; version++) {
+    const migration = migrations[version];
+    if (migration) {
+      migration(settings);
+    }
+  }
+  settings.schemaVersion = SETTINGS_VERSION;
+
+  try {
+    target.store = settings;
+  } catch (error) {
+    console.error('Settings migration failed, resetting to defaults:', error);
+    target.clear();
+  }
+}
+
+export function getSettings<K extends SettingsSection>(section: K): AppSettings[K] {
+  // Merge with defaults so settings saved by older versions pick up new fields
+  return { ...defaults[section], ...getStore().get(section) };
+}
+
+export function updateSettings<K extends SettingsSection>(section: K, values: Partial<AppSettings[K]>) {
+  try {
+    getStore().set(section, { ...getSettings(section), ...values });
+  } catch (error) {
+    // Schema violations are logged instead of crashing the main process
+    console.error(`Error saving ${section} settings:`, error);
+  }
+}
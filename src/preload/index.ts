@@ -4,6 +4,51 @@ import { contextBridge, ipcRenderer } from 'electron';
 contextBridge.exposeInMainWorld('electronAPI', {
   toggleClickThrough: (enabled: boolean) => ipcRenderer.send('toggle-click-through', enabled),
   setMouseOverToolbar: (isOver: boolean) => ipcRenderer.send('mouse-over-toolbar', isOver),
-  saveScreenshot: (dataUrl: string) => ipcRenderer.invoke('save-screenshot', dataUrl),
-  openWhiteboard: () => ipcRenderer.send('open-whiteboard')
+  chooseExportTarget: (formats: string[]) => ipcRenderer.invoke('choose-export-target', formats),
+  writeExport: (data: string | Uint8Array) => ipcRenderer.invoke('write-export', data),
+  captureDesktop: () => ipcRenderer.invoke('capture-desktop'),
+  getDesktopSource: () => ipcRenderer.invoke('get-desktop-source'),
+  excludeFromCapture: (excluded: boolean) => ipcRenderer.send('exclude-from-capture', excluded),
+  saveRecording: (data: Uint8Array) => ipcRenderer.invoke('save-recording', data),
+  openImage: () => ipcRenderer.invoke('open-image'),
+  readClipboard: () => ipcRenderer.invoke('read-clipboard'),
+  writeClipboard: (data: object) => ipcRenderer.send('write-clipboard', data),
+  openWhiteboard: () => ipcRenderer.send('open-whiteboard'),
+  openSession: () => ipcRenderer.invoke('open-session'),
+  saveSession: (document: object, filePath: string | null) => ipcRenderer.invoke('save-session', document, filePath),
+  saveSessionAs: (document: object) => ipcRenderer.invoke('save-session-as', document),
+  getSettings: (section: string) => ipcRenderer.invoke('get-settings', section),
+  updateSettings: (section: string, values: object) => ipcRenderer.send('update-settings', section, values),
+  getHotkeys: () => ipcRenderer.invoke('get-hotkeys'),
+  setHotkeys: (bindings: object) => ipcRenderer.invoke('set-hotkeys', bindings),
+  onHotkey: (callback: (action: string) => void) => {
+    ipcRenderer.on('hotkey', (event, action: string) => callback(action));
+  },
+  onHotkeyConflicts: (callback: (conflicts: object[]) => void) => {
+    ipcRenderer.on('hotkey-conflicts', (event, conflicts: object[]) => callback(conflicts));
+  },
+  onPassThroughChanged: (callback: (enabled: boolean) => void) => {
+    ipcRenderer.on('pass-through-changed', (event, enabled: boolean) => callback(enabled));
+  },
+  showDisplayMenu: () => ipcRenderer.send('show-display-menu'),
+  onDisplayInfo: (callback: (info: object) => void) => {
+    ipcRenderer.on('display-info', (event, info: object) => callback(info));
+  },
+  sendOverlayState: (objects: object[], merge: boolean) => ipcRenderer.send('overlay-state-changed', objects, merge),
+  onOverlayState: (callback: (objects: object[]) => void) => {
+    ipcRenderer.on('overlay-state', (event, objects: object[]) => callback(objects));
+  },
+  sendToWhiteboard: (objects: object[]) => ipcRenderer.send('send-to-whiteboard', objects),
+  sendToOverlay: (objects: object[]) => ipcRenderer.send('send-to-overlay', objects),
+  onReceiveObjects: (callback: (objects: object[]) => void) => {
+    ipcRenderer.on('receive-objects', (event, objects: object[]) => callback(objects));
+  },
+  setMirrorMode: (enabled: boolean) => ipcRenderer.send('set-mirror-mode', enabled),
+  onMirrorModeChanged: (callback: (enabled: boolean) => void) => {
+    ipcRenderer.on('mirror-mode-changed', (event, enabled: boolean) => callback(enabled));
+  },
+  sendMirrorState: (objects: object[]) => ipcRenderer.send('mirror-state-changed', objects),
+  onMirrorState: (callback: (state: object) => void) => {
+    ipcRenderer.on('mirror-state', (event, state: object) => callback(state));
+  }
 });
@@ -1,32 +1,129 @@
-type Tool = 'brush' | 'select' | 'eraser' | 'text' | 'magnifier' | 'highlighter' | 'laserPointer' | 'arrow' | 'rectangle' | 'circle' | 'line' | 'roundRect' | 'star';
+type Tool = 'brush' | 'marker' | 'select' | 'eraser' | 'redact' | 'text' | 'magnifier' | 'highlighter' | 'laserPointer' | 'arrow' | 'rectangle' | 'circle' | 'line' | 'roundRect' | 'star' | 'triangle';
+
+const TOOLS: Tool[] = ['brush', 'marker', 'select', 'eraser', 'redact', 'text', 'magnifier', 'highlighter', 'laserPointer', 'arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star', 'triangle'];
+
+// Seconds fading ink stays before it fades, cycled through by the More Tools option
+const FADE_DELAYS = [3, 5, 10, 30];
+const FADE_OUT_DURATION = 1000; // ms from fully visible to gone
+
+// Straight marker lines within this angle of level or upright snap to it
+const MARKER_SNAP_ANGLE = Math.PI / 12;
 
 interface ElectronAPI {
   toggleClickThrough: (enabled: boolean) => void;
   setMouseOverToolbar: (isOver: boolean) => void;
-  saveScreenshot: (dataUrl: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+  chooseExportTarget: (formats: ExportFormat[]) => Promise<ExportTarget>;
+  writeExport: (data: string | Uint8Array) => Promise<ExportResult>;
+  captureDesktop: () => Promise<DesktopCapture>;
+  getDesktopSource: () => Promise<string | null>;
+  excludeFromCapture: (excluded: boolean) => void;
+  saveRecording: (data: Uint8Array) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+  openImage: () => Promise<{ success: boolean; dataUrl?: string; canceled?: boolean; error?: string }>;
+  readClipboard: () => Promise<ClipboardContents>;
+  writeClipboard: (data: { text?: string; image?: string }) => void;
   openWhiteboard: () => void;
+  openSession: () => Promise<SessionResult>;
+  saveSession: (document: SessionDocument, filePath: string | null) => Promise<SessionResult>;
+  saveSessionAs: (document: SessionDocument) => Promise<SessionResult>;
+  getSettings: (section: 'overlay') => Promise<OverlaySettings>;
+  updateSettings: (section: 'overlay', values: Partial<OverlaySettings>) => void;
+  getHotkeys: () => Promise<{ bindings: HotkeyBindings; defaults: HotkeyBindings; conflicts: HotkeyConflict[] }>;
+  setHotkeys: (bindings: HotkeyBindings) => Promise<HotkeyConflict[]>;
+  onHotkey: (callback: (action: HotkeyAction) => void) => void;
+  onHotkeyConflicts: (callback: (conflicts: HotkeyConflict[]) => void) => void;
+  onPassThroughChanged: (callback: (enabled: boolean) => void) => void;
+  showDisplayMenu: () => void;
+  onDisplayInfo: (callback: (info: DisplayInfo) => void) => void;
+  sendOverlayState: (objects: DrawObject[], merge: boolean) => void;
+  onOverlayState: (callback: (objects: DrawObject[]) => void) => void;
+  sendToWhiteboard: (objects: DrawObject[]) => void;
+  onReceiveObjects: (callback: (objects: DrawObject[]) => void) => void;
+  onMirrorModeChanged: (callback: (enabled: boolean) => void) => void;
+  sendMirrorState: (objects: DrawObject[]) => void;
+}
+
+// Shape of the highlighter's spotlight and of the regions pinned with it
+type SpotlightShape = 'circle' | 'rect' | 'roundRect';
+
+interface SpotlightRegion extends Rect {
+  shape: SpotlightShape;
+}
+
+const SPOTLIGHT_TRANSITION_DURATION = 300; // ms to glide onto a pinned region and back
+
+// Screenshots save the annotations alone, or composited over the display or a dragged region of it
+type ScreenshotMode = 'annotations' | 'screen' | 'region';
+
+// PNG data URL of the display underneath the overlay
+interface DesktopCapture {
+  success: boolean;
+  screen?: string;
+  error?: string;
+}
+
+// The display this overlay window covers, sent by the main process
+interface DisplayInfo {
+  id: number;
+  bounds: { x: number; y: number; width: number; height: number };
+  scaleFactor: number;
+  sharedState: boolean; // All overlays show one drawing, exchanged in screen coordinates
+}
+
+// Global hotkeys are registered by the main process and forwarded here while another app has focus
+type HotkeyAction = 'toggleOverlay' | 'togglePassThrough' | 'clear' | 'undo' | 'brush' | 'arrow' | 'laserPointer' | 'highlighter' | 'screenshot';
+
+type HotkeyBindings = Record<HotkeyAction, string>;
+
+interface HotkeyConflict {
+  action: HotkeyAction;
+  accelerator: string;
+  reason: string;
 }
 
-interface DrawObject {
-  type: 'brush' | 'shape' | 'text';
-  tool: Tool;
+const HOTKEY_LABELS: Record<HotkeyAction, string> = {
+  toggleOverlay: 'Show / hide overlay',
+  togglePassThrough: 'Toggle pass-through',
+  clear: 'Clear drawing',
+  undo: 'Undo',
+  brush: 'Brush',
+  arrow: 'Arrow',
+  laserPointer: 'Laser pointer',
+  highlighter: 'Highlighter',
+  screenshot: 'Take screenshot'
+};
+
+// Mirrors the overlay section of the settings stored by the main process
+interface OverlaySettings {
+  tool: string;
   color: string;
   size: number;
-  points?: Array<{ x: number; y: number }>; // For brush strokes
-  startX?: number; // For shapes
-  startY?: number;
-  endX?: number;
-  endY?: number;
-  text?: string; // For text objects
-  fontSize?: number;
-  x?: number; // Position for text
-  y?: number;
-  bounds?: { x: number; y: number; width: number; height: number }; // Bounding box for hit testing
+  fontSize: number;
+  fontFamily: string;
+  smoothing: StrokeSmoothing;
+  smartShapes: boolean;
+  eraserMode: EraserMode;
+  redactStyle: RedactStyle;
+  markerOpacity: number;
+  straightMarker: boolean;
+  fadingInk: boolean;
+  fadeDelay: number;
+  spotlightShape: SpotlightShape;
+  spotlightDim: number;
+  spotlightDimColor: string;
+  keyDisplayPosition: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  background: string;
+  grid: string;
+  toolbarPosition: { x: number; y: number } | null;
+  exportScale: ExportScale;
+  recordDesktop: boolean;
+  screenshotMode: ScreenshotMode | 'window';
 }
 
 class ScreenAnnotationApp {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
+  private engine: DrawingEngine;
+  private exporter: VectorExporter;
   private isDrawing = false;
   private lastX = 0;
   private lastY = 0;
@@ -46,6 +143,16 @@ class ScreenAnnotationApp {
   private highlighterCanvas: HTMLCanvasElement | null = null;
   private highlighterCtx: CanvasRenderingContext2D | null = null;
   private highlighterSizeMultiplier = 10; // Multiplier to scale the size slider value
+  private spotlightShape: SpotlightShape = 'circle';
+  private spotlightDim = 0.6; // Opacity of the dimmed screen around the spotlight
+  private spotlightDimColor = '#000000';
+  private pinnedSpotlights: SpotlightRegion[] = [];
+  private spotlightDragStart: { x: number; y: number } | null = null; // Corner of a region being pinned
+  private spotlightPointer: { x: number; y: number } | null = null;
+  private spotlightAnchor: SpotlightRegion | null = null; // Pinned region the spotlight rests on, null to follow the pointer
+  private spotlight: SpotlightRegion | null = null; // Where the spotlight was last drawn
+  private spotlightTransition: { from: SpotlightRegion; startTime: number } | null = null;
+  private isSpotlightAnimating = false;
 
   // Laser pointer properties
   private laserPointerCanvas: HTMLCanvasElement | null = null;
@@ -65,40 +172,122 @@ class ScreenAnnotationApp {
   private tempCtx: CanvasRenderingContext2D | null = null;
   private savedImageData: ImageData | null = null;
 
+  // Eraser properties
+  private eraserMode: EraserMode = 'stroke';
+  private hasErasedInStroke = false;
+  private toolBeforePenEraser: Tool | null = null; // Tool to go back to when the pen is turned back over
+
+  // Marker properties
+  private markerOpacity = DEFAULT_MARKER_OPACITY;
+  private straightMarker = false; // Marker strokes are straight lines, e.g. for underlining
+
+  // Redaction properties
+  private redactStyle: RedactStyle = 'blur';
+  private isRefreshingBackdrop = false;
+
+  // Fading ink - new objects fade out and are removed on their own
+  private fadingInk = false;
+  private fadeDelay = 5; // Seconds before an object starts to fade
+  private isFadeLoopRunning = false;
+
   // Click-through mode
   private isPassThroughEnabled = false;
 
   // Select/Move tool
-  private selectedImageData: ImageData | null = null;
-  private selectionRect: { x: number; y: number; width: number; height: number } | null = null;
-  private isDraggingSelection = false;
-  private selectionOffsetX = 0;
-  private selectionOffsetY = 0;
-  private isSelecting = false;
+  private isSelecting = false; // Dragging a rubber-band rectangle
 
   // Toolbar hover state
   private isMouseOverToolbar = false;
+  private toolbarPosition: { x: number; y: number } | null = null; // null keeps the default centered position
+
+  // Persisted settings
+  private isLoadingSettings = false;
+  private settingsSaveTimer: number | null = null;
+  private settingsSaveDelay = 300; // ms, coalesces slider drags into a single write
+
+  // HiDPI - canvases are backed by device pixels, coordinates stay in CSS pixels
+  private pixelRatio = 1;
+  private exportScale: ExportScale = 'native';
+  private screenshotMode: ScreenshotMode = 'annotations'; // Mode used by the screenshot hotkey
+  private isPickingRegion = false;
+  private regionStart: { x: number; y: number } | null = null;
+
+  // Recording
+  private recorder: ScreenRecorder;
+  private recordDesktop = false; // Record the desktop underneath the annotations
+  private recordingTimer: number | null = null; // Updates the elapsed time in the indicator
+  private isStartingRecording = false; // Waiting for the desktop capture and the recorder
+
+  // Session file the drawing was last opened from or saved to
+  private sessionFilePath: string | null = null;
+
+  // Multi-monitor
+  private displayOrigin = { x: 0, y: 0 }; // Top-left of this window's display in screen coordinates
+  private isStateShared = false;
+  private isMirrored = false; // The whiteboard shows a live copy of this overlay
+
+  // Global hotkeys
+  private hotkeyBindings: HotkeyBindings | null = null; // Bindings being edited in the hotkeys panel
+  private hotkeyDefaults: HotkeyBindings | null = null;
+  private hotkeyConflicts: HotkeyConflict[] = [];
 
   // Advanced features (available for both overlay and whiteboard)
-  private history: ImageData[] = [];
-  private historyStep = -1;
+  private history = new CommandHistory(() => {
+    this.updateUndoRedoButtons();
+    this.shareState();
+    this.mirrorState();
+    pruneImageCache(this.drawnObjects);
+  });
   private fontSize = 24;
   private textInput: HTMLTextAreaElement | null = null;
   private isEditingText = false;
+  private editingTextObject: DrawObject | null = null; // Existing text object being re-edited
+  private textInputOrigin = { x: 0, y: 0 };
+  private fontFamily = DEFAULT_FONT_FAMILY;
+  private isBold = false;
+  private isItalic = false;
+  private isUnderline = false;
+  private textAlign: TextAlign = 'left';
+  private textBackground = false;
   private currentBackground = 'transparent';
   private currentGrid = 'none';
 
   // Object-based drawing for draggable items
   private drawnObjects: DrawObject[] = [];
-  private selectedObject: DrawObject | null = null;
+  private selectedObjects: DrawObject[] = [];
   private isDraggingObject = false;
-  private dragOffsetX = 0;
-  private dragOffsetY = 0;
+  private dragLastX = 0;
+  private dragLastY = 0;
+  private dragTotalX = 0; // Distance moved during the current drag, for the move command
+  private dragTotalY = 0;
   private currentStroke: DrawObject | null = null; // For tracking brush strokes in progress
+  private strokePointer: StrokePoint | null = null; // Where the pointer is, ahead of the smoothed stroke
+  private smoothing: StrokeSmoothing = 'low';
+  private smartShapes = false; // Replace strokes that look like shapes with the shape
+  private eraseStartObjects: DrawObject[] = []; // Object list before the current eraser stroke
+  private pendingRestyle: Array<{ obj: DrawObject; before: Partial<DrawObject> }> = [];
+
+  // Resize/rotate handles of the selected object
+  private activeHandle: TransformHandle | null = null;
+  private transformStart: TransformStart | null = null;
+  private croppingObject: DrawObject | null = null; // Image whose handles crop rather than scale
+  private objectListTarget: ObjectListTarget<DrawObject> = {
+    getObjects: () => this.drawnObjects,
+    setObjects: (objects) => {
+      this.drawnObjects = objects;
+    }
+  };
 
   constructor() {
     this.canvas = document.getElementById('canvas') as HTMLCanvasElement;
     this.ctx = this.canvas.getContext('2d')!;
+    this.engine = new DrawingEngine(this.ctx);
+    this.exporter = new VectorExporter(this.engine);
+    this.engine.onImageLoad = () => this.redrawCanvas();
+    this.recorder = new ScreenRecorder(
+      () => [this.canvas, this.highlighterCanvas, this.laserPointerCanvas].filter((layer): layer is HTMLCanvasElement => !!layer),
+      () => this.currentBackground
+    );
 
     this.setupCanvas();
     this.setupEventListeners();
@@ -108,19 +297,130 @@ class ScreenAnnotationApp {
     this.setupKeyDisplay();
     this.setupTempCanvas();
     this.setupToolbarDragging();
+    this.setupHotkeys();
+    this.setupDisplays();
+    this.setupWhiteboardSync();
+    this.setupImageDrop();
 
-    // Initialize history
-    this.saveState();
+    // Initialize history buttons
+    this.updateUndoRedoButtons();
+
+    this.loadSettings();
 
     console.log('App initialized successfully');
   }
 
+  private async loadSettings() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI) return;
+
+    let settings: OverlaySettings;
+    try {
+      settings = await electronAPI.getSettings('overlay');
+    } catch (error) {
+      console.error('Error loading settings:', error);
+      return;
+    }
+
+    // Applying the settings goes through the regular setters, which would save them straight back
+    this.isLoadingSettings = true;
+
+    this.color = settings.color;
+    this.size = settings.size;
+    this.fontSize = settings.fontSize;
+    this.fontFamily = settings.fontFamily;
+    (document.getElementById('sizeSlider') as HTMLInputElement).value = String(this.size);
+    this.updateTextControls();
+
+    this.setSmoothing(settings.smoothing);
+    this.setSmartShapes(settings.smartShapes);
+    this.setEraserMode(settings.eraserMode);
+    this.setRedactStyle(settings.redactStyle);
+    this.setSpotlightShape(settings.spotlightShape);
+    this.setSpotlightDim(settings.spotlightDim);
+    this.setSpotlightDimColor(settings.spotlightDimColor);
+    this.setMarkerOpacity(settings.markerOpacity);
+    this.setStraightMarker(settings.straightMarker);
+    this.setFadingInk(settings.fadingInk);
+    this.setFadeDelay(settings.fadeDelay);
+    if (TOOLS.includes(settings.tool as Tool)) {
+      this.selectTool(settings.tool as Tool);
+    }
+
+    this.keyDisplayPosition = settings.keyDisplayPosition;
+    this.updateKeyDisplayPosition();
+
+    this.changeBackground(settings.background);
+    this.changeGrid(settings.grid);
+
+    if (settings.toolbarPosition) {
+      this.moveToolbar(settings.toolbarPosition.x, settings.toolbarPosition.y);
+    }
+
+    this.setExportScale(settings.exportScale);
+    this.setRecordDesktop(settings.recordDesktop);
+    // There is no active window mode any more, settings that still name it get the full screen
+    this.setScreenshotMode(settings.screenshotMode === 'window' ? 'screen' : settings.screenshotMode);
+
+    this.isLoadingSettings = false;
+  }
+
+  private saveSettings() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || this.isLoadingSettings) return;
+
+    if (this.settingsSaveTimer !== null) {
+      clearTimeout(this.settingsSaveTimer);
+    }
+
+    this.settingsSaveTimer = window.setTimeout(() => {
+      this.settingsSaveTimer = null;
+      electronAPI.updateSettings('overlay', {
+        tool: this.currentTool,
+        color: this.color,
+        size: this.size,
+        fontSize: this.fontSize,
+        fontFamily: this.fontFamily,
+        smoothing: this.smoothing,
+        smartShapes: this.smartShapes,
+        eraserMode: this.eraserMode,
+        redactStyle: this.redactStyle,
+        markerOpacity: this.markerOpacity,
+        straightMarker: this.straightMarker,
+        spotlightShape: this.spotlightShape,
+        spotlightDim: this.spotlightDim,
+        spotlightDimColor: this.spotlightDimColor,
+        fadingInk: this.fadingInk,
+        fadeDelay: this.fadeDelay,
+        keyDisplayPosition: this.keyDisplayPosition,
+        background: this.currentBackground,
+        grid: this.currentGrid,
+        toolbarPosition: this.toolbarPosition,
+        exportScale: this.exportScale,
+        recordDesktop: this.recordDesktop,
+        screenshotMode: this.screenshotMode
+      });
+    }, this.settingsSaveDelay);
+  }
+
+  private moveToolbar(x: number, y: number) {
+    const toolbar = document.getElementById('toolbar')!;
+
+    // Keep the toolbar on screen in case the display got smaller since it was saved
+    x = Math.max(0, Math.min(x, window.innerWidth - toolbar.offsetWidth));
+    y = Math.max(0, Math.min(y, window.innerHeight - toolbar.offsetHeight));
+
+    toolbar.style.left = x + 'px';
+    toolbar.style.top = y + 'px';
+    toolbar.style.transform = 'none';
+    this.toolbarPosition = { x, y };
+  }
+
   private setupTempCanvas() {
     // Create temporary canvas for shape preview
     this.tempCanvas = document.createElement('canvas');
-    this.tempCanvas.width = this.canvas.width;
-    this.tempCanvas.height = this.canvas.height;
     this.tempCtx = this.tempCanvas.getContext('2d')!;
+    resizeCanvasForDisplay(this.tempCanvas, this.tempCtx, window.innerWidth, window.innerHeight);
   }
 
   private setupToolbarDragging() {
@@ -138,7 +438,8 @@ class ScreenAnnotationApp {
           target.tagName === 'svg' || target.tagName === 'path' ||
           target.tagName === 'circle' || target.tagName === 'line' ||
           target.tagName === 'polyline' || target.tagName === 'polygon' ||
-          target.tagName === 'rect' || target.tagName === 'SPAN') {
+          target.tagName === 'rect' || target.tagName === 'SPAN' ||
+          target.closest('button, select') !== null) {
         return;
       }
 
@@ -169,14 +470,471 @@ class ScreenAnnotationApp {
       if (isDragging) {
         isDragging = false;
         toolbar.classList.remove('dragging');
+        this.toolbarPosition = { x: toolbar.offsetLeft, y: toolbar.offsetTop };
+        this.saveSettings();
+      }
+    });
+  }
+
+  private setupHotkeys() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    const hotkeysPanel = document.getElementById('hotkeysPanel')!;
+
+    document.getElementById('hotkeysResetBtn')!.addEventListener('click', () => {
+      if (this.hotkeyDefaults) {
+        this.hotkeyBindings = { ...this.hotkeyDefaults };
+        this.renderHotkeyRows();
+      }
+    });
+    document.getElementById('hotkeysCancelBtn')!.addEventListener('click', () => this.closeHotkeysPanel());
+    document.getElementById('hotkeysSaveBtn')!.addEventListener('click', () => this.saveHotkeys());
+
+    // The panel has to stay clickable in pass-through mode, just like the toolbar
+    hotkeysPanel.addEventListener('mouseenter', () => {
+      this.isMouseOverToolbar = true;
+      if (electronAPI) {
+        electronAPI.setMouseOverToolbar(true);
+      }
+    });
+    hotkeysPanel.addEventListener('mouseleave', () => {
+      this.isMouseOverToolbar = false;
+      if (electronAPI) {
+        electronAPI.setMouseOverToolbar(false);
+      }
+    });
+
+    if (!electronAPI || !electronAPI.onHotkey) return;
+
+    electronAPI.onHotkey((action) => this.handleHotkey(action));
+    electronAPI.onPassThroughChanged((enabled) => this.setPassThroughState(enabled));
+    electronAPI.onHotkeyConflicts((conflicts) => {
+      this.hotkeyConflicts = conflicts;
+      this.updateHotkeyConflictIndicator();
+    });
+  }
+
+  private handleHotkey(action: HotkeyAction) {
+    switch (action) {
+      case 'clear':
+        this.clear();
+        break;
+      case 'undo':
+        this.undo();
+        break;
+      case 'screenshot':
+        this.takeScreenshot();
+        break;
+      case 'brush':
+      case 'arrow':
+      case 'laserPointer':
+      case 'highlighter':
+        // Picking a tool means the user wants to draw, so stop passing clicks through
+        if (this.isPassThroughEnabled) {
+          this.togglePassThrough();
+        }
+        this.selectTool(action);
+        break;
+    }
+  }
+
+  private async openHotkeysPanel() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.getHotkeys) return;
+
+    try {
+      const { bindings, defaults, conflicts } = await electronAPI.getHotkeys();
+      this.hotkeyBindings = { ...bindings };
+      this.hotkeyDefaults = defaults;
+      this.hotkeyConflicts = conflicts;
+    } catch (error) {
+      console.error('Error loading hotkeys:', error);
+      return;
+    }
+
+    this.renderHotkeyRows();
+    document.getElementById('hotkeysPanel')!.classList.add('show');
+  }
+
+  private closeHotkeysPanel() {
+    const hotkeysPanel = document.getElementById('hotkeysPanel')!;
+    hotkeysPanel.classList.remove('show');
+    this.hotkeyBindings = null;
+
+    // mouseleave doesn't fire when the element under the cursor disappears
+    this.isMouseOverToolbar = false;
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (electronAPI) {
+      electronAPI.setMouseOverToolbar(false);
+    }
+  }
+
+  private async saveHotkeys() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !this.hotkeyBindings) return;
+
+    try {
+      this.hotkeyConflicts = await electronAPI.setHotkeys(this.hotkeyBindings);
+    } catch (error) {
+      console.error('Error saving hotkeys:', error);
+      return;
+    }
+
+    this.updateHotkeyConflictIndicator();
+
+    // Keep the panel open so conflicting bindings can be changed right away
+    if (this.hotkeyConflicts.length > 0) {
+      this.renderHotkeyRows();
+    } else {
+      this.closeHotkeysPanel();
+    }
+  }
+
+  private renderHotkeyRows() {
+    if (!this.hotkeyBindings) return;
+
+    const list = document.getElementById('hotkeysList')!;
+    list.innerHTML = '';
+
+    for (const action of Object.keys(HOTKEY_LABELS) as HotkeyAction[]) {
+      const row = document.createElement('div');
+      row.className = 'hotkey-row';
+
+      const label = document.createElement('span');
+      label.textContent = HOTKEY_LABELS[action];
+
+      const input = document.createElement('input');
+      input.className = 'hotkey-input';
+      input.readOnly = true;
+      input.value = this.hotkeyBindings[action];
+      input.placeholder = 'Not set';
+
+      input.addEventListener('keydown', (e) => {
+        e.preventDefault();
+        e.stopPropagation(); // Don't trigger the overlay's own shortcuts while recording
+
+        if ((e.key === 'Backspace' || e.key === 'Delete') && !e.ctrlKey && !e.metaKey && !e.altKey) {
+          this.hotkeyBindings![action] = '';
+          input.value = '';
+          return;
+        }
+
+        const accelerator = this.getAccelerator(e);
+        if (accelerator) {
+          this.hotkeyBindings![action] = accelerator;
+          input.value = accelerator;
+        }
+      });
+
+      row.appendChild(label);
+      row.appendChild(input);
+      list.appendChild(row);
+
+      const conflict = this.hotkeyConflicts.find(c => c.action === action);
+      if (conflict && conflict.accelerator === this.hotkeyBindings[action]) {
+        row.classList.add('conflict');
+
+        const message = document.createElement('div');
+        message.className = 'hotkey-conflict';
+        message.textContent = conflict.reason;
+        list.appendChild(message);
+      }
+    }
+  }
+
+  // Converts a key press into an Electron accelerator such as 'CommandOrControl+Alt+B'
+  private getAccelerator(e: KeyboardEvent): string | null {
+    if (['Control', 'Shift', 'Alt', 'Meta'].includes(e.key)) return null;
+
+    const namedKeys: { [code: string]: string } = {
+      Space: 'Space', Enter: 'Enter', Tab: 'Tab', Escape: 'Escape', Backspace: 'Backspace', Delete: 'Delete',
+      Insert: 'Insert', Home: 'Home', End: 'End', PageUp: 'PageUp', PageDown: 'PageDown',
+      ArrowUp: 'Up', ArrowDown: 'Down', ArrowLeft: 'Left', ArrowRight: 'Right',
+      Minus: '-', Equal: '=', BracketLeft: '[', BracketRight: ']', Semicolon: ';', Quote: "'",
+      Comma: ',', Period: '.', Slash: '/', Backslash: '\\', Backquote: '`'
+    };
+
+    let key: string;
+    if (/^Key[A-Z]$/.test(e.code) || /^Digit[0-9]$/.test(e.code)) {
+      key = e.code.slice(-1);
+    } else if (/^F([1-9]|1[0-9]|2[0-4])$/.test(e.code)) {
+      key = e.code;
+    } else if (namedKeys[e.code]) {
+      key = namedKeys[e.code];
+    } else {
+      return null;
+    }
+
+    const modifiers: string[] = [];
+    if (e.ctrlKey || e.metaKey) modifiers.push('CommandOrControl');
+    if (e.altKey) modifiers.push('Alt');
+    if (e.shiftKey) modifiers.push('Shift');
+
+    // A global hotkey without modifiers would swallow that key in every application
+    if (modifiers.length === 0 && !/^F\d+$/.test(key)) return null;
+
+    return [...modifiers, key].join('+');
+  }
+
+  private updateHotkeyConflictIndicator() {
+    const hotkeysOption = document.getElementById('hotkeysOption');
+    if (!hotkeysOption) return;
+
+    const hasConflicts = this.hotkeyConflicts.length > 0;
+    hotkeysOption.classList.toggle('conflict', hasConflicts);
+    hotkeysOption.title = hasConflicts
+      ? `Some hotkeys could not be registered: ${this.hotkeyConflicts.map(c => c.accelerator).join(', ')}`
+      : 'Configure Global Hotkeys';
+  }
+
+  private setupDisplays() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.onDisplayInfo) return;
+
+    electronAPI.onDisplayInfo((info) => {
+      const wasShared = this.isStateShared;
+      this.displayOrigin = { x: info.bounds.x, y: info.bounds.y };
+      this.isStateShared = info.sharedState;
+
+      // Contribute the existing drawing when sharing gets turned on
+      if (this.isStateShared && !wasShared) {
+        this.shareState(true);
+      }
+    });
+
+    electronAPI.onOverlayState((objects) => this.applySharedState(objects));
+  }
+
+  // Sends the drawing to the other overlays, in screen coordinates so strokes can span displays
+  private shareState(merge = false) {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !this.isStateShared) return;
+
+    electronAPI.sendOverlayState(this.getScreenObjects(), merge);
+  }
+
+  // Copy of the drawing in screen coordinates, with ids so copies can be matched up
+  private getScreenObjects(): DrawObject[] {
+    return this.drawnObjects.map(obj => {
+      if (!obj.id) {
+        obj.id = this.createObjectId();
+      }
+      const copy = structuredClone(obj);
+      this.engine.moveObject(copy, this.displayOrigin.x, this.displayOrigin.y);
+      return copy;
+    });
+  }
+
+  private setupWhiteboardSync() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.onReceiveObjects) return;
+
+    electronAPI.onReceiveObjects((objects) => this.insertObjects(objects, 'Receive'));
+    electronAPI.onMirrorModeChanged((enabled) => {
+      this.isMirrored = enabled;
+      this.mirrorState();
+    });
+  }
+
+  // Sends the selection, or everything when nothing is selected, to the current whiteboard page
+  private sendToWhiteboard() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.sendToWhiteboard) return;
+
+    this.commitRestyle();
+    const objects = this.selectedObjects.length > 0 ? this.selectedObjects : this.drawnObjects;
+    if (objects.length === 0) return;
+
+    electronAPI.sendToWhiteboard(structuredClone(objects));
+  }
+
+  // Adds objects sent from the whiteboard, pasted or dropped as one undoable step, centred on
+  // the given point or else on this window
+  private insertObjects(objects: DrawObject[], label: string, center: { x: number; y: number } | null = null) {
+    // Pasted and received objects come from outside this window, so skip anything that can't be drawn
+    objects = objects.filter(isValidObject);
+    if (objects.length === 0) return;
+
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+
+    // Fresh ids, so the copies don't get mixed up with objects already drawn here
+    const groupIds = new Map<string, string>();
+    for (const obj of objects) {
+      obj.id = this.createObjectId();
+      delete obj.createdAt;
+      if (obj.groupId) {
+        if (!groupIds.has(obj.groupId)) {
+          groupIds.set(obj.groupId, this.createGroupId());
+        }
+        obj.groupId = groupIds.get(obj.groupId);
+      }
+      this.engine.updateObjectBounds(obj);
+    }
+
+    const bounds = this.engine.getObjectsBounds(objects);
+    if (bounds) {
+      const target = center || { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+      const dx = target.x - (bounds.x + bounds.width / 2);
+      const dy = target.y - (bounds.y + bounds.height / 2);
+      for (const obj of objects) {
+        this.engine.moveObject(obj, dx, dy);
+      }
+    }
+
+    const before = this.drawnObjects.slice();
+    this.drawnObjects = this.drawnObjects.concat(objects);
+    this.history.push(new ObjectListCommand(label, this.objectListTarget, before, this.drawnObjects.slice()));
+    this.stampFadingInk(objects);
+
+    if (this.currentTool === 'select') {
+      this.selectedObjects = objects.slice();
+    }
+    this.redrawCanvas();
+
+    if (objects.some(obj => obj.type === 'redaction')) {
+      this.refreshBackdrop();
+    }
+  }
+
+  // Clipboard
+
+  private copySelection(cut: boolean) {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.writeClipboard) return;
+
+    this.commitRestyle();
+    if (this.selectedObjects.length === 0) return;
+
+    electronAPI.writeClipboard({ text: serializeObjects(this.selectedObjects) });
+    if (cut) {
+      this.deleteSelectedObjects('Cut');
+    }
+  }
+
+  // The annotations as a picture, for pasting into other apps
+  private copyCanvasImage() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.writeClipboard) return;
+
+    this.redrawCanvas(false);
+    const dataUrl = canvasToPng(this.canvas, this.exportScale);
+    this.redrawCanvas();
+
+    electronAPI.writeClipboard({ image: dataUrl });
+  }
+
+  // Objects copied in either window, or else a picture as an image object
+  private async paste() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.readClipboard) return;
+
+    const contents = await electronAPI.readClipboard();
+    const objects = parseSerializedObjects(contents.text);
+    if (objects) {
+      this.insertObjects(objects, 'Paste');
+      return;
+    }
+
+    if (contents.image) {
+      await this.insertImage(contents.image, 'Paste');
+    }
+  }
+
+  // Images
+
+  private async insertImage(src: string, label: string, center: { x: number; y: number } | null = null) {
+    try {
+      const image = await this.engine.createImageObject(src, window.innerWidth * 0.8, window.innerHeight * 0.8);
+      this.insertObjects([image], label, center);
+    } catch (error) {
+      console.error('Could not insert the image:', error);
+    }
+  }
+
+  private async openImage() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.openImage) return;
+
+    const result = await electronAPI.openImage();
+    if (result.success && result.dataUrl) {
+      await this.insertImage(result.dataUrl, 'Insert Image');
+    } else if (!result.canceled) {
+      console.error('Failed to open image:', result.error);
+    }
+  }
+
+  // Image files dropped on the overlay are inserted where they land
+  private setupImageDrop() {
+    window.addEventListener('dragover', (e) => {
+      // Without this the window would navigate to the dropped file
+      e.preventDefault();
+      if (e.dataTransfer) {
+        e.dataTransfer.dropEffect = 'copy';
+      }
+    });
+
+    window.addEventListener('drop', async (e) => {
+      e.preventDefault();
+      const files = Array.from(e.dataTransfer?.files || []).filter(file => file.type.startsWith('image/'));
+
+      for (let i = 0; i < files.length; i++) {
+        let src: string;
+        try {
+          src = await readFileAsDataUrl(files[i]);
+        } catch (error) {
+          // Still insert the other files
+          console.error('Could not read the dropped file:', error);
+          continue;
+        }
+        await this.insertImage(src, 'Drop Image', { x: e.clientX + i * 20, y: e.clientY + i * 20 });
+      }
+    });
+  }
+
+  // Double-clicking an image switches its handles between scaling and cropping
+  private toggleCrop(obj: DrawObject) {
+    this.commitRestyle();
+    this.croppingObject = this.croppingObject === obj ? null : obj;
+    this.selectedObjects = [obj];
+    this.redrawCanvas();
+  }
+
+  // Keeps the whiteboard's mirror of the overlays up to date
+  private mirrorState() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !this.isMirrored) return;
+
+    electronAPI.sendMirrorState(this.getScreenObjects());
+  }
+
+  private applySharedState(objects: DrawObject[]) {
+    // Update known objects in place, so history commands that reference them keep working
+    const existing = new Map(this.drawnObjects.filter(obj => obj.id).map(obj => [obj.id, obj]));
+
+    this.drawnObjects = objects.map(remote => {
+      this.engine.moveObject(remote, -this.displayOrigin.x, -this.displayOrigin.y);
+
+      const local = existing.get(remote.id);
+      if (!local) return remote;
+
+      for (const key of Object.keys(local) as Array<keyof DrawObject>) {
+        if (!(key in remote)) {
+          delete local[key];
+        }
       }
+      return Object.assign(local, remote);
     });
+
+    this.selectedObjects = this.selectedObjects.filter(obj => this.drawnObjects.includes(obj));
+    pruneImageCache(this.drawnObjects);
+    this.redrawCanvas();
+    this.startFadingInk();
   }
 
   private setupCanvas() {
-    // Set canvas size to window size
-    this.canvas.width = window.innerWidth;
-    this.canvas.height = window.innerHeight;
+    // Set canvas size to window size, backed by device pixels
+    this.pixelRatio = resizeCanvasForDisplay(this.canvas, this.ctx, window.innerWidth, window.innerHeight);
 
     // Setup context
     this.ctx.lineCap = 'round';
@@ -187,8 +945,6 @@ class ScreenAnnotationApp {
     // Create magnifier canvas
     this.magnifierCanvas = document.createElement('canvas');
     this.magnifierCanvas.id = 'magnifierCanvas';
-    this.magnifierCanvas.width = this.magnifierSize;
-    this.magnifierCanvas.height = this.magnifierSize;
     this.magnifierCanvas.style.position = 'absolute';
     this.magnifierCanvas.style.border = '3px solid #4287f5';
     this.magnifierCanvas.style.borderRadius = '50%';
@@ -198,14 +954,13 @@ class ScreenAnnotationApp {
 
     document.body.appendChild(this.magnifierCanvas);
     this.magnifierCtx = this.magnifierCanvas.getContext('2d')!;
+    resizeCanvasForDisplay(this.magnifierCanvas, this.magnifierCtx, this.magnifierSize, this.magnifierSize);
   }
 
   private setupHighlighter() {
     // Create highlighter canvas overlay
     this.highlighterCanvas = document.createElement('canvas');
     this.highlighterCanvas.id = 'highlighterCanvas';
-    this.highlighterCanvas.width = window.innerWidth;
-    this.highlighterCanvas.height = window.innerHeight;
     this.highlighterCanvas.style.position = 'absolute';
     this.highlighterCanvas.style.top = '0';
     this.highlighterCanvas.style.left = '0';
@@ -215,14 +970,13 @@ class ScreenAnnotationApp {
 
     document.body.appendChild(this.highlighterCanvas);
     this.highlighterCtx = this.highlighterCanvas.getContext('2d')!;
+    resizeCanvasForDisplay(this.highlighterCanvas, this.highlighterCtx, window.innerWidth, window.innerHeight);
   }
 
   private setupLaserPointer() {
     // Create laser pointer canvas overlay
     this.laserPointerCanvas = document.createElement('canvas');
     this.laserPointerCanvas.id = 'laserPointerCanvas';
-    this.laserPointerCanvas.width = window.innerWidth;
-    this.laserPointerCanvas.height = window.innerHeight;
     this.laserPointerCanvas.style.position = 'absolute';
     this.laserPointerCanvas.style.top = '0';
     this.laserPointerCanvas.style.left = '0';
@@ -232,6 +986,7 @@ class ScreenAnnotationApp {
 
     document.body.appendChild(this.laserPointerCanvas);
     this.laserPointerCtx = this.laserPointerCanvas.getContext('2d')!;
+    resizeCanvasForDisplay(this.laserPointerCanvas, this.laserPointerCtx, window.innerWidth, window.innerHeight);
 
     // Start animation loop for laser pointer
     this.animateLaserPointer();
@@ -291,10 +1046,13 @@ class ScreenAnnotationApp {
 
   private setupEventListeners() {
     // Canvas events
-    this.canvas.addEventListener('mousedown', this.handleMouseDown.bind(this));
-    this.canvas.addEventListener('mousemove', this.handleMouseMove.bind(this));
-    this.canvas.addEventListener('mouseup', this.handleMouseUp.bind(this));
-    this.canvas.addEventListener('mouseleave', this.handleMouseUp.bind(this));
+    // Pointer Events cover mice, pens and touch alike
+    this.canvas.addEventListener('pointerdown', this.handlePointerDown.bind(this));
+    this.canvas.addEventListener('pointermove', this.handlePointerMove.bind(this));
+    this.canvas.addEventListener('pointerup', this.handlePointerUp.bind(this));
+    this.canvas.addEventListener('pointerleave', this.handlePointerUp.bind(this));
+    this.canvas.addEventListener('pointercancel', this.handlePointerUp.bind(this));
+    this.canvas.addEventListener('dblclick', this.handleDoubleClick.bind(this));
 
     // Tool buttons
     const brushBtn = document.getElementById('brushBtn')!;
@@ -303,18 +1061,47 @@ class ScreenAnnotationApp {
     const textBtn = document.getElementById('textBtn')!;
     const magnifierBtn = document.getElementById('magnifierBtn')!;
     const highlighterBtn = document.getElementById('highlighterBtn')!;
+    const highlighterDropdown = document.getElementById('highlighterDropdown')!;
     const laserPointerBtn = document.getElementById('laserPointerBtn')!;
+    const eraserDropdown = document.getElementById('eraserDropdown')!;
+    const brushDropdown = document.getElementById('brushDropdown')!;
+    const markerBtn = document.getElementById('markerBtn')!;
+    const markerDropdown = document.getElementById('markerDropdown')!;
+    const redactBtn = document.getElementById('redactBtn')!;
+    const redactDropdown = document.getElementById('redactDropdown')!;
     const shapesBtn = document.getElementById('shapesBtn')!;
     const shapesDropdown = document.getElementById('shapesDropdown')!;
     const moreToolsBtn = document.getElementById('moreToolsBtn')!;
     const moreToolsDropdown = document.getElementById('moreToolsDropdown')!;
 
-    brushBtn.addEventListener('click', () => this.selectTool('brush'));
+    brushBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.selectTool('brush');
+      brushDropdown.classList.toggle('show');
+    });
+    markerBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.selectTool('marker');
+      markerDropdown.classList.toggle('show');
+    });
     selectBtn.addEventListener('click', () => this.selectTool('select'));
-    eraserBtn.addEventListener('click', () => this.selectTool('eraser'));
+    eraserBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.selectTool('eraser');
+      eraserDropdown.classList.toggle('show');
+    });
+    redactBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.selectTool('redact');
+      redactDropdown.classList.toggle('show');
+    });
     textBtn.addEventListener('click', () => this.selectTool('text'));
     magnifierBtn.addEventListener('click', () => this.selectTool('magnifier'));
-    highlighterBtn.addEventListener('click', () => this.selectTool('highlighter'));
+    highlighterBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.selectTool('highlighter');
+      highlighterDropdown.classList.toggle('show');
+    });
     laserPointerBtn.addEventListener('click', () => this.selectTool('laserPointer'));
 
     // Shapes dropdown toggle
@@ -340,6 +1127,120 @@ class ScreenAnnotationApp {
       }
     });
 
+    // Eraser mode options
+    const eraserOptions = document.querySelectorAll('.eraser-option');
+    eraserOptions.forEach(option => {
+      option.addEventListener('click', (e) => {
+        const mode = (e.currentTarget as HTMLElement).dataset.eraserMode as EraserMode;
+        this.setEraserMode(mode);
+        this.selectTool('eraser');
+        eraserDropdown.classList.remove('show');
+      });
+    });
+
+    // Close eraser dropdown when clicking outside
+    document.addEventListener('click', (e) => {
+      if (!eraserBtn.contains(e.target as Node) && !eraserDropdown.contains(e.target as Node)) {
+        eraserDropdown.classList.remove('show');
+      }
+    });
+
+    // Brush smoothing options
+    const smoothingOptions = document.querySelectorAll('.brush-option[data-smoothing]');
+    smoothingOptions.forEach(option => {
+      option.addEventListener('click', (e) => {
+        const smoothing = (e.currentTarget as HTMLElement).dataset.smoothing as StrokeSmoothing;
+        this.setSmoothing(smoothing);
+        brushDropdown.classList.remove('show');
+      });
+    });
+
+    document.getElementById('smartShapesOption')!.addEventListener('click', () => {
+      this.setSmartShapes(!this.smartShapes);
+      brushDropdown.classList.remove('show');
+    });
+
+    // Close brush dropdown when clicking outside
+    document.addEventListener('click', (e) => {
+      if (!brushBtn.contains(e.target as Node) && !brushDropdown.contains(e.target as Node)) {
+        brushDropdown.classList.remove('show');
+      }
+    });
+
+    // Marker opacity options
+    const markerOptions = document.querySelectorAll('.marker-option[data-opacity]');
+    markerOptions.forEach(option => {
+      option.addEventListener('click', (e) => {
+        this.setMarkerOpacity(Number((e.currentTarget as HTMLElement).dataset.opacity));
+        this.selectTool('marker');
+        markerDropdown.classList.remove('show');
+      });
+    });
+
+    document.getElementById('straightMarkerOption')!.addEventListener('click', () => {
+      this.setStraightMarker(!this.straightMarker);
+      this.selectTool('marker');
+      markerDropdown.classList.remove('show');
+    });
+
+    // Close marker dropdown when clicking outside
+    document.addEventListener('click', (e) => {
+      if (!markerBtn.contains(e.target as Node) && !markerDropdown.contains(e.target as Node)) {
+        markerDropdown.classList.remove('show');
+      }
+    });
+
+    // Spotlight options
+    const spotlightShapeOptions = document.querySelectorAll('.highlighter-option[data-spotlight-shape]');
+    spotlightShapeOptions.forEach(option => {
+      option.addEventListener('click', (e) => {
+        this.setSpotlightShape((e.currentTarget as HTMLElement).dataset.spotlightShape as SpotlightShape);
+        highlighterDropdown.classList.remove('show');
+      });
+    });
+
+    const spotlightDimOptions = document.querySelectorAll('.highlighter-option[data-dim]');
+    spotlightDimOptions.forEach(option => {
+      option.addEventListener('click', (e) => {
+        this.setSpotlightDim(Number((e.currentTarget as HTMLElement).dataset.dim));
+        highlighterDropdown.classList.remove('show');
+      });
+    });
+
+    // The dropdown stays open while the dim color is picked
+    const dimColorPicker = document.getElementById('dimColorPicker') as HTMLInputElement;
+    dimColorPicker.addEventListener('input', () => this.setSpotlightDimColor(dimColorPicker.value));
+
+    document.getElementById('clearSpotlightsOption')!.addEventListener('click', () => {
+      this.clearPinnedSpotlights();
+      highlighterDropdown.classList.remove('show');
+    });
+
+    // Close highlighter dropdown when clicking outside
+    document.addEventListener('click', (e) => {
+      if (!highlighterBtn.contains(e.target as Node) && !highlighterDropdown.contains(e.target as Node)) {
+        highlighterDropdown.classList.remove('show');
+      }
+    });
+
+    // Redaction style options
+    const redactOptions = document.querySelectorAll('.redact-option');
+    redactOptions.forEach(option => {
+      option.addEventListener('click', (e) => {
+        const style = (e.currentTarget as HTMLElement).dataset.redactStyle as RedactStyle;
+        this.setRedactStyle(style);
+        this.selectTool('redact');
+        redactDropdown.classList.remove('show');
+      });
+    });
+
+    // Close redaction dropdown when clicking outside
+    document.addEventListener('click', (e) => {
+      if (!redactBtn.contains(e.target as Node) && !redactDropdown.contains(e.target as Node)) {
+        redactDropdown.classList.remove('show');
+      }
+    });
+
     // More Tools dropdown toggle
     moreToolsBtn.addEventListener('click', (e) => {
       e.stopPropagation();
@@ -356,6 +1257,60 @@ class ScreenAnnotationApp {
       keyDisplayOption.classList.toggle('active');
     });
 
+    const sessionOptions: Array<[string, () => void]> = [
+      ['openSessionOption', () => this.openSession()],
+      ['saveSessionOption', () => this.saveSession()],
+      ['saveSessionAsOption', () => this.saveSession(true)]
+    ];
+    for (const [id, action] of sessionOptions) {
+      document.getElementById(id)!.addEventListener('click', () => {
+        moreToolsDropdown.classList.remove('show');
+        action();
+      });
+    }
+
+    document.getElementById('insertImageOption')!.addEventListener('click', () => {
+      moreToolsDropdown.classList.remove('show');
+      this.openImage();
+    });
+
+    const exportScaleOption = document.getElementById('exportScaleOption')!;
+    exportScaleOption.addEventListener('click', () => {
+      this.setExportScale(this.exportScale === '1x' ? 'native' : '1x');
+      moreToolsDropdown.classList.remove('show');
+    });
+
+    document.getElementById('fadingInkOption')!.addEventListener('click', () => {
+      this.setFadingInk(!this.fadingInk);
+      moreToolsDropdown.classList.remove('show');
+    });
+
+    document.getElementById('fadeDelayOption')!.addEventListener('click', () => {
+      const next = (FADE_DELAYS.indexOf(this.fadeDelay) + 1) % FADE_DELAYS.length;
+      this.setFadeDelay(FADE_DELAYS[next]);
+    });
+
+    const recordDesktopOption = document.getElementById('recordDesktopOption')!;
+    recordDesktopOption.addEventListener('click', () => {
+      this.setRecordDesktop(!this.recordDesktop);
+      moreToolsDropdown.classList.remove('show');
+    });
+
+    const displaysOption = document.getElementById('displaysOption')!;
+    displaysOption.addEventListener('click', () => {
+      moreToolsDropdown.classList.remove('show');
+      const electronAPI = (window as any).electronAPI as ElectronAPI;
+      if (electronAPI && electronAPI.showDisplayMenu) {
+        electronAPI.showDisplayMenu();
+      }
+    });
+
+    const hotkeysOption = document.getElementById('hotkeysOption')!;
+    hotkeysOption.addEventListener('click', () => {
+      moreToolsDropdown.classList.remove('show');
+      this.openHotkeysPanel();
+    });
+
     // Close more tools dropdown when clicking outside
     document.addEventListener('click', (e) => {
       if (!moreToolsBtn.contains(e.target as Node) && !moreToolsDropdown.contains(e.target as Node)) {
@@ -373,18 +1328,90 @@ class ScreenAnnotationApp {
     const clearBtn = document.getElementById('clearBtn')!;
     const quitBtn = document.getElementById('quitBtn')!;
 
+    // Controls also restyle the selected object; the history entry is recorded on 'change'
     colorPicker.addEventListener('input', (e) => {
       this.color = (e.target as HTMLInputElement).value;
+      this.applyTextInputStyle();
+      this.previewRestyle({ color: this.color });
+      this.saveSettings();
     });
+    colorPicker.addEventListener('change', () => this.commitRestyle());
     sizeSlider.addEventListener('input', (e) => {
       this.size = parseInt((e.target as HTMLInputElement).value);
+      this.previewRestyle({ size: this.size });
+      this.saveSettings();
     });
+    sizeSlider.addEventListener('change', () => this.commitRestyle());
     fontSizeSelect.addEventListener('change', (e) => {
       this.fontSize = parseInt((e.target as HTMLSelectElement).value);
+      this.applyTextStyle({ fontSize: this.fontSize });
+      this.saveSettings();
+    });
+
+    // Text styling - applies to the text being edited or the selected text objects
+    const fontFamilySelect = document.getElementById('fontFamilySelect') as HTMLSelectElement;
+    const boldBtn = document.getElementById('boldBtn')!;
+    const italicBtn = document.getElementById('italicBtn')!;
+    const underlineBtn = document.getElementById('underlineBtn')!;
+    const textAlignSelect = document.getElementById('textAlignSelect') as HTMLSelectElement;
+    const textBackgroundBtn = document.getElementById('textBackgroundBtn')!;
+
+    fontFamilySelect.addEventListener('change', (e) => {
+      this.fontFamily = (e.target as HTMLSelectElement).value;
+      this.applyTextStyle({ fontFamily: this.fontFamily });
+      this.saveSettings();
+    });
+    boldBtn.addEventListener('click', () => {
+      this.isBold = !this.isBold;
+      this.applyTextStyle({ bold: this.isBold });
+    });
+    italicBtn.addEventListener('click', () => {
+      this.isItalic = !this.isItalic;
+      this.applyTextStyle({ italic: this.isItalic });
+    });
+    underlineBtn.addEventListener('click', () => {
+      this.isUnderline = !this.isUnderline;
+      this.applyTextStyle({ underline: this.isUnderline });
+    });
+    textAlignSelect.addEventListener('change', (e) => {
+      this.textAlign = (e.target as HTMLSelectElement).value as TextAlign;
+      this.applyTextStyle({ textAlign: this.textAlign });
+    });
+    textBackgroundBtn.addEventListener('click', () => {
+      this.textBackground = !this.textBackground;
+      this.applyTextStyle({ textBackground: this.textBackground });
+    });
+
+    // Keep focus in the text being edited when a style toggle is pressed
+    [boldBtn, italicBtn, underlineBtn, textBackgroundBtn].forEach(btn => {
+      btn.addEventListener('mousedown', (e) => e.preventDefault());
     });
     whiteboardBtn.addEventListener('click', () => this.openWhiteboard());
+    document.getElementById('recordBtn')!.addEventListener('click', () => this.toggleRecording());
+    document.getElementById('pauseRecordingBtn')!.addEventListener('click', () => this.togglePauseRecording());
+    document.getElementById('sendToWhiteboardBtn')!.addEventListener('click', () => this.sendToWhiteboard());
     passThroughBtn.addEventListener('click', () => this.togglePassThrough());
-    screenshotBtn.addEventListener('click', () => this.takeScreenshot());
+
+    // Screenshot dropdown, the chosen mode is remembered for the screenshot hotkey
+    const screenshotDropdown = document.getElementById('screenshotDropdown')!;
+    screenshotBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      screenshotDropdown.classList.toggle('show');
+    });
+    document.querySelectorAll('.screenshot-option').forEach(option => {
+      option.addEventListener('click', (e) => {
+        const mode = (e.currentTarget as HTMLElement).dataset.capture as ScreenshotMode;
+        screenshotDropdown.classList.remove('show');
+        this.setScreenshotMode(mode);
+        this.takeScreenshot(mode);
+      });
+    });
+    document.addEventListener('click', (e) => {
+      if (!screenshotBtn.contains(e.target as Node) && !screenshotDropdown.contains(e.target as Node)) {
+        screenshotDropdown.classList.remove('show');
+      }
+    });
+
     clearBtn.addEventListener('click', () => this.clear());
     quitBtn.addEventListener('click', () => this.quit());
 
@@ -455,21 +1482,133 @@ class ScreenAnnotationApp {
       this.isMouseOverToolbar = false;
     });
 
-    // Window resize
-    window.addEventListener('resize', () => {
-      this.setupCanvas();
-      if (this.tempCanvas) {
-        this.tempCanvas.width = this.canvas.width;
-        this.tempCanvas.height = this.canvas.height;
-      }
-      if (this.highlighterCanvas) {
-        this.highlighterCanvas.width = window.innerWidth;
-        this.highlighterCanvas.height = window.innerHeight;
+    eraserDropdown.addEventListener('mouseenter', () => {
+      this.isMouseOverToolbar = true;
+    });
+
+    eraserDropdown.addEventListener('mouseleave', () => {
+      this.isMouseOverToolbar = false;
+    });
+
+    brushDropdown.addEventListener('mouseenter', () => {
+      this.isMouseOverToolbar = true;
+    });
+
+    brushDropdown.addEventListener('mouseleave', () => {
+      this.isMouseOverToolbar = false;
+    });
+
+    highlighterDropdown.addEventListener('mouseenter', () => {
+      this.isMouseOverToolbar = true;
+    });
+
+    highlighterDropdown.addEventListener('mouseleave', () => {
+      this.isMouseOverToolbar = false;
+    });
+
+    markerDropdown.addEventListener('mouseenter', () => {
+      this.isMouseOverToolbar = true;
+    });
+
+    markerDropdown.addEventListener('mouseleave', () => {
+      this.isMouseOverToolbar = false;
+    });
+
+    redactDropdown.addEventListener('mouseenter', () => {
+      this.isMouseOverToolbar = true;
+    });
+
+    redactDropdown.addEventListener('mouseleave', () => {
+      this.isMouseOverToolbar = false;
+    });
+
+    screenshotDropdown.addEventListener('mouseenter', () => {
+      this.isMouseOverToolbar = true;
+    });
+
+    screenshotDropdown.addEventListener('mouseleave', () => {
+      this.isMouseOverToolbar = false;
+    });
+
+    // Keyboard shortcuts
+    window.addEventListener('keydown', (e) => {
+      if (this.isEditingText) return;
+
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        this.undo();
+      } else if ((e.ctrlKey || e.metaKey) && (key === 'y' || (key === 'z' && e.shiftKey))) {
+        e.preventDefault();
+        this.redo();
+      } else if ((e.ctrlKey || e.metaKey) && key === 's') {
+        e.preventDefault();
+        this.saveSession(e.shiftKey);
+      } else if ((e.ctrlKey || e.metaKey) && key === 'o') {
+        e.preventDefault();
+        this.openSession();
+      } else if ((e.ctrlKey || e.metaKey) && key === 'g') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          this.ungroupSelection();
+        } else {
+          this.groupSelection();
+        }
+      } else if ((e.ctrlKey || e.metaKey) && key === 'c') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          this.copyCanvasImage();
+        } else {
+          this.copySelection(false);
+        }
+      } else if ((e.ctrlKey || e.metaKey) && key === 'x') {
+        e.preventDefault();
+        this.copySelection(true);
+      } else if ((e.ctrlKey || e.metaKey) && key === 'v') {
+        e.preventDefault();
+        this.paste();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && this.selectedObjects.length > 0) {
+        e.preventDefault();
+        this.deleteSelectedObjects();
+      } else if (e.key === 'Escape' && this.isPickingRegion) {
+        this.finishRegionCapture(null);
+      } else if (e.key === 'Escape' && this.croppingObject) {
+        this.croppingObject = null;
+        this.redrawCanvas();
       }
     });
+
+    // Window resize and display scale changes
+    window.addEventListener('resize', () => this.resizeCanvases());
+    watchPixelRatio(() => this.resizeCanvases());
+  }
+
+  private resizeCanvases() {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+
+    this.setupCanvas();
+    if (this.tempCanvas && this.tempCtx) {
+      resizeCanvasForDisplay(this.tempCanvas, this.tempCtx, width, height);
+    }
+    if (this.magnifierCanvas && this.magnifierCtx) {
+      resizeCanvasForDisplay(this.magnifierCanvas, this.magnifierCtx, this.magnifierSize, this.magnifierSize);
+    }
+    if (this.highlighterCanvas && this.highlighterCtx) {
+      resizeCanvasForDisplay(this.highlighterCanvas, this.highlighterCtx, width, height);
+      this.drawSpotlight();
+    }
+    if (this.laserPointerCanvas && this.laserPointerCtx) {
+      resizeCanvasForDisplay(this.laserPointerCanvas, this.laserPointerCtx, width, height);
+    }
+
+    // Resizing the canvas clears it, e.g. when the overlay moves to another display
+    this.redrawCanvas();
   }
 
   private selectTool(tool: Tool) {
+    this.toolBeforePenEraser = null;
+
     // Finalize any ongoing actions before switching tools
     if (this.isEditingText) {
       this.finalizeTextInput();
@@ -481,14 +1620,8 @@ class ScreenAnnotationApp {
       this.savedImageData = null;
     }
 
-    // If selecting, clear the selection state
-    if (this.isSelecting) {
-      this.isSelecting = false;
-      if (this.savedImageData) {
-        this.ctx.putImageData(this.savedImageData, 0, 0);
-        this.savedImageData = null;
-      }
-    }
+    // Drop the rubber band and the object selection when switching tools
+    this.clearSelection();
 
     this.currentTool = tool;
 
@@ -501,16 +1634,18 @@ class ScreenAnnotationApp {
     allShapeOptions.forEach(opt => opt.classList.remove('active'));
 
     // Determine which button to activate
-    const shapeTools: Tool[] = ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star'];
+    const shapeTools: Tool[] = ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star', 'triangle'];
 
     if (tool === 'brush') {
       document.getElementById('brushBtn')?.classList.add('active');
+    } else if (tool === 'marker') {
+      document.getElementById('markerBtn')?.classList.add('active');
     } else if (tool === 'select') {
       document.getElementById('selectBtn')?.classList.add('active');
-      // Clear any existing selection when switching to select tool
-      this.clearSelection();
     } else if (tool === 'eraser') {
       document.getElementById('eraserBtn')?.classList.add('active');
+    } else if (tool === 'redact') {
+      document.getElementById('redactBtn')?.classList.add('active');
     } else if (tool === 'text') {
       document.getElementById('textBtn')?.classList.add('active');
     } else if (tool === 'magnifier') {
@@ -534,11 +1669,13 @@ class ScreenAnnotationApp {
     // Hide highlighter when switching away from it
     if (tool !== 'highlighter' && this.highlighterCanvas) {
       this.highlighterCanvas.style.display = 'none';
+      this.spotlightDragStart = null;
     }
 
-    // Show highlighter when switching to it
+    // Show highlighter when switching to it, with any regions pinned earlier
     if (tool === 'highlighter' && this.highlighterCanvas) {
       this.highlighterCanvas.style.display = 'block';
+      this.drawSpotlight();
     }
 
     // Hide laser pointer when switching away from it
@@ -555,12 +1692,14 @@ class ScreenAnnotationApp {
     // Set appropriate cursor
     if (shapeTools.includes(tool)) {
       this.canvas.style.cursor = 'crosshair';
-    } else if (tool === 'brush') {
+    } else if (tool === 'brush' || tool === 'marker') {
       this.canvas.style.cursor = 'crosshair';
     } else if (tool === 'select') {
       this.canvas.style.cursor = 'default';
     } else if (tool === 'eraser') {
       this.canvas.style.cursor = 'pointer';
+    } else if (tool === 'redact') {
+      this.canvas.style.cursor = 'crosshair';
     } else if (tool === 'text') {
       this.canvas.style.cursor = 'text';
     } else if (tool === 'magnifier') {
@@ -570,42 +1709,93 @@ class ScreenAnnotationApp {
     } else if (tool === 'laserPointer') {
       this.canvas.style.cursor = 'none';
     }
+
+    // Redactions should blur what is on screen now, not when the backdrop was last taken
+    if (tool === 'redact' && !this.isLoadingSettings) {
+      this.refreshBackdrop(true);
+    }
+
+    this.saveSettings();
   }
 
-  private handleMouseDown(e: MouseEvent) {
-    // Don't draw if mouse is over toolbar
-    if (this.isMouseOverToolbar) {
+  private handlePointerDown(e: PointerEvent) {
+    // Don't draw if mouse is over toolbar; on touch screens only the first finger draws
+    if (this.isMouseOverToolbar || !e.isPrimary) {
+      return;
+    }
+
+    // The pen's eraser end erases until the tip is used again
+    if (isPenEraser(e)) {
+      if (this.currentTool !== 'eraser') {
+        const previousTool = this.currentTool;
+        this.selectTool('eraser');
+        this.toolBeforePenEraser = previousTool;
+      }
+    } else if (e.pointerType === 'pen' && this.toolBeforePenEraser) {
+      this.selectTool(this.toolBeforePenEraser);
+    }
+
+    if (this.isPickingRegion) {
+      this.regionStart = { x: e.clientX, y: e.clientY };
       return;
     }
 
-    const shapeTools: Tool[] = ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star'];
+    // Clicking the canvas commits any text being edited
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+
+    const shapeTools: Tool[] = ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star', 'triangle'];
 
     if (this.currentTool === 'select') {
       const mouseX = e.clientX;
       const mouseY = e.clientY;
 
+      // Handles of a single selected object take priority over everything else
+      const single = this.getSingleSelection();
+      const handle = single ? this.engine.hitTestHandle(single, mouseX, mouseY) : null;
+
       // First check if clicking on a drawn object
-      const hitObject = this.hitTestObject(mouseX, mouseY);
-      if (hitObject) {
-        // Start dragging the object
-        this.selectedObject = hitObject;
-        this.isDraggingObject = true;
-        this.dragOffsetX = mouseX - (hitObject.bounds?.x || 0);
-        this.dragOffsetY = mouseY - (hitObject.bounds?.y || 0);
-        this.canvas.style.cursor = 'move';
-      } else if (this.selectionRect && this.isInsideSelection(mouseX, mouseY)) {
-        // Check if clicking inside existing rectangular selection
-        this.isDraggingSelection = true;
-        this.selectionOffsetX = mouseX - this.selectionRect.x;
-        this.selectionOffsetY = mouseY - this.selectionRect.y;
-        this.canvas.style.cursor = 'move';
+      const hitObject = handle ? null : this.engine.hitTestObject(this.drawnObjects, mouseX, mouseY);
+      if (handle && single) {
+        this.commitRestyle();
+        this.startTransform(single, handle, mouseX, mouseY);
+      } else if (hitObject) {
+        this.commitRestyle();
+        const members = this.getGroupMembers(hitObject);
+        if (hitObject !== this.croppingObject) {
+          this.croppingObject = null;
+        }
+
+        if (e.shiftKey) {
+          // Shift-click adds the object (and its group) to the selection or removes it
+          if (this.selectedObjects.includes(hitObject)) {
+            this.selectedObjects = this.selectedObjects.filter(obj => !members.includes(obj));
+          } else {
+            this.selectedObjects = this.selectedObjects.concat(members);
+          }
+        } else if (!this.selectedObjects.includes(hitObject)) {
+          this.selectedObjects = members;
+        }
+
+        // Start dragging the whole selection
+        if (this.selectedObjects.includes(hitObject)) {
+          this.isDraggingObject = true;
+          this.dragLastX = mouseX;
+          this.dragLastY = mouseY;
+          this.dragTotalX = 0;
+          this.dragTotalY = 0;
+          this.canvas.style.cursor = 'move';
+        }
+        this.redrawCanvas();
       } else {
-        // Start new rectangular selection
-        this.clearSelection();
+        // Start a rubber-band selection; Shift keeps the current selection
+        if (!e.shiftKey) {
+          this.clearSelection();
+        }
         this.isSelecting = true;
         this.startX = mouseX;
         this.startY = mouseY;
-        this.savedImageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
       }
     } else if (this.currentTool === 'brush') {
       this.isDrawing = true;
@@ -613,88 +1803,146 @@ class ScreenAnnotationApp {
       this.lastY = e.clientY;
 
       // Create new stroke object
+      const point = getStrokePoint(this.lastX, this.lastY, e);
       this.currentStroke = {
         type: 'brush',
         tool: 'brush',
         color: this.color,
         size: this.size,
-        points: [{ x: this.lastX, y: this.lastY }]
+        points: [point]
       };
+      this.strokePointer = point;
 
       // Draw initial dot
-      this.ctx.beginPath();
-      this.ctx.arc(this.lastX, this.lastY, this.size / 2, 0, Math.PI * 2);
-      this.ctx.fillStyle = this.color;
-      this.ctx.fill();
+      this.engine.drawDot(this.lastX, this.lastY, this.color, this.engine.getStrokeWidth(this.size, point.pressure));
+    } else if (this.currentTool === 'marker') {
+      this.isDrawing = true;
+      this.startX = e.clientX;
+      this.startY = e.clientY;
+      this.currentStroke = {
+        type: 'brush',
+        tool: 'marker',
+        color: this.color,
+        size: this.size,
+        opacity: this.markerOpacity,
+        points: [{ x: e.clientX, y: e.clientY }]
+      };
+
+      // Translucent ink can't be added a segment at a time, so the whole stroke is
+      // drawn again over the saved canvas on every move
+      this.savedImageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+      this.engine.drawObject(this.currentStroke);
     } else if (this.currentTool === 'eraser') {
       this.isDrawing = true;
+      this.hasErasedInStroke = false;
+      this.eraseStartObjects = this.drawnObjects.slice();
       this.lastX = e.clientX;
       this.lastY = e.clientY;
 
-      // Save state for undo
-      this.saveState();
+      // Erase whatever is directly under the pointer
+      this.erase(this.lastX, this.lastY, this.lastX, this.lastY);
     } else if (this.currentTool === 'text') {
-      // Create text input at click position
-      this.createTextInput(e.clientX, e.clientY);
-    } else if (shapeTools.includes(this.currentTool)) {
-      // Start shape drawing
+      // Clicking existing text re-opens it, anywhere else starts new text
+      const hitObject = this.engine.hitTestObject(this.drawnObjects, e.clientX, e.clientY);
+      if (hitObject?.type === 'text') {
+        this.editTextObject(hitObject);
+      } else {
+        this.createTextInput(e.clientX, e.clientY);
+      }
+    } else if (shapeTools.includes(this.currentTool) || this.currentTool === 'redact') {
+      // Start shape or redaction drawing
       this.isDrawing = true;
       this.startX = e.clientX;
       this.startY = e.clientY;
 
       // Save current canvas state
       this.savedImageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+    } else if (this.currentTool === 'highlighter') {
+      // Dragging pins a spotlight region, clicking a pinned one unpins it
+      this.spotlightDragStart = { x: e.clientX, y: e.clientY };
+      this.updateHighlighter(e.clientX, e.clientY);
     }
   }
 
-  private handleMouseMove(e: MouseEvent) {
-    const shapeTools: Tool[] = ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star'];
+  private handlePointerMove(e: PointerEvent) {
+    if (!e.isPrimary) return;
+
+    const shapeTools: Tool[] = ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star', 'triangle'];
+
+    if (this.isPickingRegion) {
+      if (this.regionStart) {
+        this.redrawCanvas(false);
+        this.engine.drawSelectionRect(this.regionStart.x, this.regionStart.y, e.clientX, e.clientY);
+      }
+      return;
+    }
 
     if (this.currentTool === 'select') {
       const mouseX = e.clientX;
       const mouseY = e.clientY;
 
-      if (this.isDraggingObject && this.selectedObject) {
-        // Move the object
-        const newX = mouseX - this.dragOffsetX;
-        const newY = mouseY - this.dragOffsetY;
-        const deltaX = newX - (this.selectedObject.bounds?.x || 0);
-        const deltaY = newY - (this.selectedObject.bounds?.y || 0);
-
-        // Update object position
-        this.moveObject(this.selectedObject, deltaX, deltaY);
+      if (this.activeHandle && this.getSingleSelection()) {
+        // Resize or rotate the selected object
+        if (this.activeHandle === 'rotate') {
+          this.rotateSelectedObject(mouseX, mouseY, e.shiftKey);
+        } else {
+          this.resizeSelectedObject(mouseX, mouseY, e.shiftKey);
+        }
+        this.redrawCanvas();
+      } else if (this.isDraggingObject) {
+        // Move every selected object
+        const deltaX = mouseX - this.dragLastX;
+        const deltaY = mouseY - this.dragLastY;
+        for (const obj of this.selectedObjects) {
+          this.engine.moveObject(obj, deltaX, deltaY);
+        }
+        this.dragLastX = mouseX;
+        this.dragLastY = mouseY;
+        this.dragTotalX += deltaX;
+        this.dragTotalY += deltaY;
 
         // Redraw canvas
-        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-        this.redrawAllObjects();
-      } else if (this.isSelecting && this.savedImageData) {
+        this.redrawCanvas();
+      } else if (this.isSelecting) {
         // Draw selection rectangle preview
-        this.ctx.putImageData(this.savedImageData, 0, 0);
-        this.redrawAllObjects();
-        this.drawSelectionRect(this.startX, this.startY, mouseX, mouseY);
-      } else if (this.isDraggingSelection && this.selectionRect && this.selectedImageData) {
-        // Move the rectangular selection
-        const newX = mouseX - this.selectionOffsetX;
-        const newY = mouseY - this.selectionOffsetY;
-        this.moveSelection(newX, newY);
+        this.redrawCanvas();
+        this.engine.drawSelectionRect(this.startX, this.startY, mouseX, mouseY);
       } else {
-        // Check if hovering over any object or selection
-        const hitObject = this.hitTestObject(mouseX, mouseY);
-        if (hitObject || (this.selectionRect && this.isInsideSelection(mouseX, mouseY))) {
+        // Check if hovering over a handle or any object
+        const single = this.getSingleSelection();
+        const handle = single ? this.engine.hitTestHandle(single, mouseX, mouseY) : null;
+        const hitObject = this.engine.hitTestObject(this.drawnObjects, mouseX, mouseY);
+        if (handle) {
+          this.canvas.style.cursor = this.engine.getHandleCursor(handle);
+        } else if (hitObject) {
           this.canvas.style.cursor = 'move';
         } else {
           this.canvas.style.cursor = 'default';
         }
       }
-    } else if (this.currentTool === 'brush' && this.isDrawing) {
-      // Add point to current stroke
-      if (this.currentStroke && this.currentStroke.points) {
-        this.currentStroke.points.push({ x: e.clientX, y: e.clientY });
+    } else if (this.currentTool === 'brush' && this.isDrawing && this.currentStroke && this.currentStroke.points) {
+      // Add points to current stroke, each segment as wide as the pen pressure along it
+      const points = this.currentStroke.points;
+      for (const sample of getPointerSamples(e)) {
+        this.strokePointer = getStrokePoint(sample.clientX, sample.clientY, sample);
+        const point = this.engine.smoothPoint(points[points.length - 1], this.strokePointer, this.smoothing);
+        const width = this.engine.getStrokeWidth(this.size, this.engine.getSegmentPressure(points[points.length - 1], point));
+        points.push(point);
+
+        this.engine.drawLine(this.lastX, this.lastY, point.x, point.y, this.color, width);
+        this.lastX = point.x;
+        this.lastY = point.y;
       }
-
-      this.drawLine(this.lastX, this.lastY, e.clientX, e.clientY);
-      this.lastX = e.clientX;
-      this.lastY = e.clientY;
+    } else if (this.currentTool === 'marker' && this.isDrawing && this.currentStroke && this.savedImageData) {
+      if (this.straightMarker) {
+        this.currentStroke.points = [this.currentStroke.points![0], this.getStraightMarkerEnd(e.clientX, e.clientY)];
+      } else {
+        for (const sample of getPointerSamples(e)) {
+          this.currentStroke.points!.push({ x: sample.clientX, y: sample.clientY });
+        }
+      }
+      this.ctx.putImageData(this.savedImageData, 0, 0);
+      this.engine.drawObject(this.currentStroke);
     } else if (this.currentTool === 'eraser' && this.isDrawing) {
       this.erase(this.lastX, this.lastY, e.clientX, e.clientY);
       this.lastX = e.clientX;
@@ -705,7 +1953,10 @@ class ScreenAnnotationApp {
       this.ctx.putImageData(this.savedImageData, 0, 0);
 
       // Draw preview shape
-      this.drawShape(this.startX, this.startY, e.clientX, e.clientY, this.currentTool);
+      this.engine.drawShape(this.startX, this.startY, e.clientX, e.clientY, this.currentTool as ShapeTool, this.color, this.size);
+    } else if (this.currentTool === 'redact' && this.isDrawing && this.savedImageData) {
+      this.ctx.putImageData(this.savedImageData, 0, 0);
+      this.engine.drawObject(this.createRedaction(e.clientX, e.clientY));
     } else if (this.currentTool === 'magnifier') {
       this.updateMagnifier(e.clientX, e.clientY);
     } else if (this.currentTool === 'highlighter') {
@@ -715,213 +1966,146 @@ class ScreenAnnotationApp {
     }
   }
 
-  private handleMouseUp(e: MouseEvent) {
-    const shapeTools: Tool[] = ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star'];
+  private handlePointerUp(e: PointerEvent) {
+    if (!e.isPrimary) return;
+
+    const shapeTools: Tool[] = ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star', 'triangle'];
+
+    if (this.isPickingRegion) {
+      if (this.regionStart) {
+        this.finishRegionCapture(this.getRegionRect(e.clientX, e.clientY));
+      }
+      return;
+    }
 
     if (this.currentTool === 'select') {
-      if (this.isDraggingObject) {
-        // Finished dragging object
+      if (this.activeHandle) {
+        this.finishTransform();
+      } else if (this.isDraggingObject) {
+        // Finished dragging - the objects stay selected for restyling or deleting
         this.isDraggingObject = false;
-        this.selectedObject = null;
         this.canvas.style.cursor = 'default';
-        this.saveState();
+
+        if (this.dragTotalX !== 0 || this.dragTotalY !== 0) {
+          this.history.push(new MoveObjectsCommand(
+            this.selectedObjects.slice(),
+            this.dragTotalX,
+            this.dragTotalY,
+            (o, dx, dy) => this.engine.moveObject(o, dx, dy)
+          ));
+          this.refreshBackdrop();
+        }
       } else if (this.isSelecting) {
-        // Finalize selection
+        // Select every object touching the rectangle
         const x = Math.min(this.startX, e.clientX);
         const y = Math.min(this.startY, e.clientY);
         const width = Math.abs(e.clientX - this.startX);
         const height = Math.abs(e.clientY - this.startY);
 
+        this.isSelecting = false;
         if (width > 5 && height > 5) {
-          this.finalizeSelection(x, y, width, height);
-        } else {
-          // Selection too small, clear it
-          if (this.savedImageData) {
-            this.ctx.putImageData(this.savedImageData, 0, 0);
-          }
+          this.selectObjectsInRect({ x, y, width, height });
         }
-
-        this.isSelecting = false;
-        this.savedImageData = null;
-      } else if (this.isDraggingSelection) {
-        // Paste selection
-        this.pasteSelection();
-        this.isDraggingSelection = false;
-        this.canvas.style.cursor = 'default';
+        this.redrawCanvas();
       }
     } else if (this.currentTool === 'brush' && this.isDrawing) {
       this.isDrawing = false;
 
       // Save the completed brush stroke as an object
       if (this.currentStroke && this.currentStroke.points && this.currentStroke.points.length > 0) {
-        this.currentStroke.bounds = this.calculateStrokeBounds(this.currentStroke.points, this.currentStroke.size);
-        this.drawnObjects.push(this.currentStroke);
+        const points = this.currentStroke.points;
+        const end = points[points.length - 1];
+
+        // Smoothing trails the pointer, so finish the stroke where it was lifted
+        if (this.strokePointer && (this.strokePointer.x !== end.x || this.strokePointer.y !== end.y)) {
+          const width = this.engine.getStrokeWidth(this.size, this.engine.getSegmentPressure(end, this.strokePointer));
+          this.engine.drawLine(end.x, end.y, this.strokePointer.x, this.strokePointer.y, this.color, width);
+          points.push(this.strokePointer);
+        }
+
+        const shape = this.smartShapes ? this.engine.recognizeShape(this.currentStroke) : null;
+        if (shape) {
+          this.addObject(shape);
+          this.redrawCanvas();
+        } else {
+          this.currentStroke.bounds = this.engine.calculateStrokeBounds(points, this.currentStroke.size);
+          this.addObject(this.currentStroke);
+        }
+        this.currentStroke = null;
+        this.strokePointer = null;
+      }
+    } else if (this.currentTool === 'highlighter' && this.spotlightDragStart) {
+      this.finishSpotlightDrag(e.clientX, e.clientY);
+    } else if (this.currentTool === 'marker' && this.isDrawing) {
+      this.isDrawing = false;
+      this.savedImageData = null;
+
+      if (this.currentStroke) {
+        this.engine.updateObjectBounds(this.currentStroke);
+        this.addObject(this.currentStroke);
         this.currentStroke = null;
-        this.saveState();
       }
     } else if (this.currentTool === 'eraser') {
+      // Only record history when the eraser actually removed something
+      if (this.isDrawing && this.hasErasedInStroke) {
+        this.history.push(new ObjectListCommand('Erase', this.objectListTarget, this.eraseStartObjects, this.drawnObjects.slice()));
+      }
       this.isDrawing = false;
+      this.hasErasedInStroke = false;
+      this.eraseStartObjects = [];
     } else if (shapeTools.includes(this.currentTool) && this.isDrawing) {
       // Finalize shape drawing and save as object
       this.isDrawing = false;
 
       const shapeObject: DrawObject = {
         type: 'shape',
-        tool: this.currentTool,
+        tool: this.currentTool as ShapeTool,
         color: this.color,
         size: this.size,
         startX: this.startX,
         startY: this.startY,
         endX: e.clientX,
         endY: e.clientY,
-        bounds: this.calculateShapeBounds(this.startX, this.startY, e.clientX, e.clientY, this.currentTool)
+        bounds: this.engine.calculateShapeBounds(this.startX, this.startY, e.clientX, e.clientY)
       };
 
-      this.drawnObjects.push(shapeObject);
+      this.addObject(shapeObject);
+      this.savedImageData = null;
+    } else if (this.currentTool === 'redact' && this.isDrawing) {
+      this.isDrawing = false;
       this.savedImageData = null;
-      this.saveState();
-    }
-  }
-
-  private drawLine(x1: number, y1: number, x2: number, y2: number) {
-    this.ctx.beginPath();
-    this.ctx.strokeStyle = this.color;
-    this.ctx.lineWidth = this.size;
-    this.ctx.moveTo(x1, y1);
-    this.ctx.lineTo(x2, y2);
-    this.ctx.stroke();
-  }
-
-  private drawShape(startX: number, startY: number, endX: number, endY: number, shape: Tool) {
-    this.ctx.strokeStyle = this.color;
-    this.ctx.fillStyle = this.color;
-    this.ctx.lineWidth = this.size;
-    this.ctx.lineCap = 'round';
-    this.ctx.lineJoin = 'round';
 
-    switch (shape) {
-      case 'line':
-        this.drawLineShape(startX, startY, endX, endY);
-        break;
-      case 'arrow':
-        this.drawArrow(startX, startY, endX, endY);
-        break;
-      case 'rectangle':
-        this.drawRectangle(startX, startY, endX, endY);
-        break;
-      case 'circle':
-        this.drawCircle(startX, startY, endX, endY);
-        break;
-      case 'roundRect':
-        this.drawRoundedRectangle(startX, startY, endX, endY);
-        break;
-      case 'star':
-        this.drawStar(startX, startY, endX, endY);
-        break;
+      // A click without dragging doesn't leave an empty redaction behind
+      const redaction = this.createRedaction(e.clientX, e.clientY);
+      if (redaction.width! > 2 && redaction.height! > 2) {
+        this.addObject(redaction);
+      } else {
+        this.redrawCanvas();
+      }
     }
   }
 
-  private drawLineShape(x1: number, y1: number, x2: number, y2: number) {
-    this.ctx.beginPath();
-    this.ctx.moveTo(x1, y1);
-    this.ctx.lineTo(x2, y2);
-    this.ctx.stroke();
+  private createRedaction(endX: number, endY: number): DrawObject {
+    const redaction: DrawObject = {
+      type: 'redaction',
+      tool: 'redact',
+      color: REDACTION_FILL,
+      size: 0,
+      x: Math.min(this.startX, endX),
+      y: Math.min(this.startY, endY),
+      width: Math.abs(endX - this.startX),
+      height: Math.abs(endY - this.startY),
+      redactStyle: this.redactStyle
+    };
+    this.engine.updateObjectBounds(redaction);
+    return redaction;
   }
 
-  private drawArrow(x1: number, y1: number, x2: number, y2: number) {
-    const headLength = 20 + this.size * 2;
-    const angle = Math.atan2(y2 - y1, x2 - x1);
+  private updateMagnifier(mouseX: number, mouseY: number) {
+    if (!this.magnifierCanvas || !this.magnifierCtx) return;
 
-    // Draw line
-    this.ctx.beginPath();
-    this.ctx.moveTo(x1, y1);
-    this.ctx.lineTo(x2, y2);
-    this.ctx.stroke();
-
-    // Draw arrowhead
-    this.ctx.beginPath();
-    this.ctx.moveTo(x2, y2);
-    this.ctx.lineTo(
-      x2 - headLength * Math.cos(angle - Math.PI / 6),
-      y2 - headLength * Math.sin(angle - Math.PI / 6)
-    );
-    this.ctx.moveTo(x2, y2);
-    this.ctx.lineTo(
-      x2 - headLength * Math.cos(angle + Math.PI / 6),
-      y2 - headLength * Math.sin(angle + Math.PI / 6)
-    );
-    this.ctx.stroke();
-  }
-
-  private drawRectangle(x1: number, y1: number, x2: number, y2: number) {
-    const width = x2 - x1;
-    const height = y2 - y1;
-
-    this.ctx.beginPath();
-    this.ctx.rect(x1, y1, width, height);
-    this.ctx.stroke();
-  }
-
-  private drawCircle(x1: number, y1: number, x2: number, y2: number) {
-    const centerX = (x1 + x2) / 2;
-    const centerY = (y1 + y2) / 2;
-    const radiusX = Math.abs(x2 - x1) / 2;
-    const radiusY = Math.abs(y2 - y1) / 2;
-
-    this.ctx.beginPath();
-    this.ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
-    this.ctx.stroke();
-  }
-
-  private drawRoundedRectangle(x1: number, y1: number, x2: number, y2: number) {
-    const width = x2 - x1;
-    const height = y2 - y1;
-    const radius = Math.min(Math.abs(width), Math.abs(height)) * 0.15;
-
-    this.ctx.beginPath();
-    this.ctx.moveTo(x1 + radius, y1);
-    this.ctx.lineTo(x2 - radius, y1);
-    this.ctx.quadraticCurveTo(x2, y1, x2, y1 + radius);
-    this.ctx.lineTo(x2, y2 - radius);
-    this.ctx.quadraticCurveTo(x2, y2, x2 - radius, y2);
-    this.ctx.lineTo(x1 + radius, y2);
-    this.ctx.quadraticCurveTo(x1, y2, x1, y2 - radius);
-    this.ctx.lineTo(x1, y1 + radius);
-    this.ctx.quadraticCurveTo(x1, y1, x1 + radius, y1);
-    this.ctx.closePath();
-    this.ctx.stroke();
-  }
-
-  private drawStar(x1: number, y1: number, x2: number, y2: number) {
-    const centerX = (x1 + x2) / 2;
-    const centerY = (y1 + y2) / 2;
-    const radius = Math.min(Math.abs(x2 - x1), Math.abs(y2 - y1)) / 2;
-    const spikes = 5;
-    const outerRadius = radius;
-    const innerRadius = radius * 0.4;
-
-    this.ctx.beginPath();
-    for (let i = 0; i < spikes * 2; i++) {
-      const angle = (i * Math.PI) / spikes - Math.PI / 2;
-      const r = i % 2 === 0 ? outerRadius : innerRadius;
-      const x = centerX + r * Math.cos(angle);
-      const y = centerY + r * Math.sin(angle);
-
-      if (i === 0) {
-        this.ctx.moveTo(x, y);
-      } else {
-        this.ctx.lineTo(x, y);
-      }
-    }
-    this.ctx.closePath();
-    this.ctx.stroke();
-  }
-
-  private updateMagnifier(mouseX: number, mouseY: number) {
-    if (!this.magnifierCanvas || !this.magnifierCtx) return;
-
-    // Show magnifier
-    this.magnifierCanvas.style.display = 'block';
+    // Show magnifier
+    this.magnifierCanvas.style.display = 'block';
 
     // Position magnifier near cursor
     const offsetX = 30;
@@ -949,13 +2133,13 @@ class ScreenAnnotationApp {
     );
     this.magnifierCtx.clip();
 
-    // Draw magnified content from main canvas
+    // Draw magnified content from main canvas - its pixels are device pixels
     this.magnifierCtx.drawImage(
       this.canvas,
-      sourceX,
-      sourceY,
-      sourceSize,
-      sourceSize,
+      sourceX * this.pixelRatio,
+      sourceY * this.pixelRatio,
+      sourceSize * this.pixelRatio,
+      sourceSize * this.pixelRatio,
       0,
       0,
       this.magnifierSize,
@@ -976,37 +2160,208 @@ class ScreenAnnotationApp {
   }
 
   private updateHighlighter(mouseX: number, mouseY: number) {
+    this.spotlightPointer = { x: mouseX, y: mouseY };
+
+    // Glide onto a pinned region when the pointer enters it, and back to the pointer when it leaves
+    const anchor = this.spotlightDragStart ? null : this.getHoveredSpotlight(mouseX, mouseY);
+    if (anchor !== this.spotlightAnchor) {
+      this.spotlightAnchor = anchor;
+      if (this.spotlight) {
+        this.spotlightTransition = { from: this.spotlight, startTime: performance.now() };
+        this.startSpotlightAnimation();
+      }
+    }
+
+    this.drawSpotlight();
+  }
+
+  private startSpotlightAnimation() {
+    if (this.isSpotlightAnimating) return;
+
+    this.isSpotlightAnimating = true;
+    requestAnimationFrame(() => this.animateSpotlight());
+  }
+
+  private animateSpotlight() {
+    this.drawSpotlight();
+
+    if (this.spotlightTransition) {
+      requestAnimationFrame(() => this.animateSpotlight());
+    } else {
+      this.isSpotlightAnimating = false;
+    }
+  }
+
+  // Where the spotlight is headed: the pinned region it rests on, or a spot around the pointer
+  private getSpotlightTarget(): SpotlightRegion | null {
+    if (this.spotlightAnchor) return this.spotlightAnchor;
+    if (!this.spotlightPointer || this.spotlightDragStart) return null;
+
+    // Calculate highlighter size based on size slider; rectangles are wide enough for a line of text
+    const radius = this.size * this.highlighterSizeMultiplier;
+    const width = this.spotlightShape === 'circle' ? radius * 2 : radius * 3;
+    const height = this.spotlightShape === 'circle' ? radius * 2 : radius * 1.5;
+    return {
+      shape: this.spotlightShape,
+      x: this.spotlightPointer.x - width / 2,
+      y: this.spotlightPointer.y - height / 2,
+      width,
+      height
+    };
+  }
+
+  private drawSpotlight() {
     if (!this.highlighterCanvas || !this.highlighterCtx) return;
 
-    // Calculate highlighter size based on size slider
-    const highlighterSize = this.size * this.highlighterSizeMultiplier;
+    const ctx = this.highlighterCtx;
+    const target = this.getSpotlightTarget();
+
+    // Ease out from where the spotlight was when it set off
+    let spotlight = target;
+    if (target && this.spotlightTransition) {
+      const { from, startTime } = this.spotlightTransition;
+      const progress = Math.min(1, (performance.now() - startTime) / SPOTLIGHT_TRANSITION_DURATION);
+      const eased = 1 - Math.pow(1 - progress, 3);
+      spotlight = {
+        shape: target.shape,
+        x: from.x + (target.x - from.x) * eased,
+        y: from.y + (target.y - from.y) * eased,
+        width: from.width + (target.width - from.width) * eased,
+        height: from.height + (target.height - from.height) * eased
+      };
+      if (progress >= 1) {
+        this.spotlightTransition = null;
+      }
+    } else {
+      this.spotlightTransition = null;
+    }
+    this.spotlight = spotlight;
+
+    // While a region is being dragged out it shows in place of the spotlight
+    const ringed = this.spotlightDragStart && this.spotlightPointer
+      ? this.getSpotlightDragRegion(this.spotlightPointer.x, this.spotlightPointer.y)
+      : spotlight;
 
     // Clear previous highlighter
-    this.highlighterCtx.clearRect(0, 0, this.highlighterCanvas.width, this.highlighterCanvas.height);
+    ctx.clearRect(0, 0, this.highlighterCanvas.width, this.highlighterCanvas.height);
+
+    // Draw spotlight effect - darken everything except the spotlight and the pinned regions
+    const rgb = hexToRgb(this.spotlightDimColor);
+    ctx.fillStyle = `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${this.spotlightDim})`;
+    ctx.fillRect(0, 0, this.highlighterCanvas.width, this.highlighterCanvas.height);
+
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.fillStyle = 'rgba(0, 0, 0, 1)';
+    for (const region of ringed ? this.pinnedSpotlights.concat(ringed) : this.pinnedSpotlights) {
+      this.traceSpotlight(region);
+      ctx.fill();
+    }
+    ctx.globalCompositeOperation = 'source-over';
 
-    // Draw spotlight effect - darken everything except the highlighted area
-    this.highlighterCtx.fillStyle = 'rgba(0, 0, 0, 0.6)';
-    this.highlighterCtx.fillRect(0, 0, this.highlighterCanvas.width, this.highlighterCanvas.height);
+    // Draw glowing ring around the highlight
+    if (ringed) {
+      this.traceSpotlight(ringed);
+      ctx.strokeStyle = this.color;
+      ctx.lineWidth = 3;
+      ctx.shadowBlur = 15;
+      ctx.shadowColor = this.color;
+      ctx.stroke();
+
+      // Reset shadow
+      ctx.shadowBlur = 0;
+    }
+  }
 
-    // Create circular cutout for the highlight
-    this.highlighterCtx.globalCompositeOperation = 'destination-out';
-    this.highlighterCtx.beginPath();
-    this.highlighterCtx.arc(mouseX, mouseY, highlighterSize, 0, Math.PI * 2);
-    this.highlighterCtx.fillStyle = 'rgba(0, 0, 0, 1)';
-    this.highlighterCtx.fill();
+  private traceSpotlight(region: SpotlightRegion) {
+    const ctx = this.highlighterCtx!;
+    ctx.beginPath();
+    if (region.shape === 'circle') {
+      ctx.ellipse(region.x + region.width / 2, region.y + region.height / 2, region.width / 2, region.height / 2, 0, 0, Math.PI * 2);
+    } else if (region.shape === 'roundRect') {
+      ctx.roundRect(region.x, region.y, region.width, region.height, Math.min(region.width, region.height) / 4);
+    } else {
+      ctx.rect(region.x, region.y, region.width, region.height);
+    }
+  }
 
-    // Draw glowing ring around the highlight
-    this.highlighterCtx.globalCompositeOperation = 'source-over';
-    this.highlighterCtx.beginPath();
-    this.highlighterCtx.arc(mouseX, mouseY, highlighterSize, 0, Math.PI * 2);
-    this.highlighterCtx.strokeStyle = this.color;
-    this.highlighterCtx.lineWidth = 3;
-    this.highlighterCtx.shadowBlur = 15;
-    this.highlighterCtx.shadowColor = this.color;
-    this.highlighterCtx.stroke();
+  private getSpotlightDragRegion(x: number, y: number): SpotlightRegion {
+    const start = this.spotlightDragStart!;
+    return {
+      shape: this.spotlightShape,
+      x: Math.min(start.x, x),
+      y: Math.min(start.y, y),
+      width: Math.abs(x - start.x),
+      height: Math.abs(y - start.y)
+    };
+  }
 
-    // Reset shadow
-    this.highlighterCtx.shadowBlur = 0;
+  // The topmost pinned region under the point
+  private getHoveredSpotlight(x: number, y: number): SpotlightRegion | null {
+    for (let i = this.pinnedSpotlights.length - 1; i >= 0; i--) {
+      const region = this.pinnedSpotlights[i];
+      if (region.shape === 'circle') {
+        const dx = (x - region.x - region.width / 2) / (region.width / 2);
+        const dy = (y - region.y - region.height / 2) / (region.height / 2);
+        if (dx * dx + dy * dy <= 1) return region;
+      } else if (x >= region.x && x <= region.x + region.width && y >= region.y && y <= region.y + region.height) {
+        return region;
+      }
+    }
+    return null;
+  }
+
+  private finishSpotlightDrag(x: number, y: number) {
+    const region = this.getSpotlightDragRegion(x, y);
+    this.spotlightDragStart = null;
+
+    if (region.width > 5 && region.height > 5) {
+      this.pinnedSpotlights.push(region);
+    } else {
+      const hovered = this.getHoveredSpotlight(x, y);
+      if (hovered) {
+        this.pinnedSpotlights = this.pinnedSpotlights.filter(pinned => pinned !== hovered);
+      }
+    }
+
+    this.updateHighlighter(x, y);
+  }
+
+  private clearPinnedSpotlights() {
+    this.pinnedSpotlights = [];
+    this.spotlightAnchor = null;
+    this.spotlightTransition = null;
+    this.drawSpotlight();
+  }
+
+  private setSpotlightShape(shape: SpotlightShape) {
+    this.spotlightShape = shape;
+
+    const shapeOptions = document.querySelectorAll('.highlighter-option[data-spotlight-shape]');
+    shapeOptions.forEach(opt => {
+      opt.classList.toggle('active', (opt as HTMLElement).dataset.spotlightShape === shape);
+    });
+
+    this.drawSpotlight();
+    this.saveSettings();
+  }
+
+  private setSpotlightDim(dim: number) {
+    this.spotlightDim = dim;
+
+    const dimOptions = document.querySelectorAll('.highlighter-option[data-dim]');
+    dimOptions.forEach(opt => {
+      opt.classList.toggle('active', Number((opt as HTMLElement).dataset.dim) === dim);
+    });
+
+    this.drawSpotlight();
+    this.saveSettings();
+  }
+
+  private setSpotlightDimColor(color: string) {
+    this.spotlightDimColor = color;
+    (document.getElementById('dimColorPicker') as HTMLInputElement).value = color;
+    this.drawSpotlight();
+    this.saveSettings();
   }
 
   private updateLaserPointer(mouseX: number, mouseY: number) {
@@ -1028,7 +2383,7 @@ class ScreenAnnotationApp {
     // Draw trail
     if (this.currentTool === 'laserPointer' && this.laserTrail.length > 0) {
       // Convert hex color to RGB
-      const rgb = this.hexToRgb(this.color);
+      const rgb = hexToRgb(this.color);
 
       // Calculate laser pointer size based on size slider
       const laserPointerSize = this.size * this.laserPointerSizeMultiplier;
@@ -1067,18 +2422,6 @@ class ScreenAnnotationApp {
     requestAnimationFrame(() => this.animateLaserPointer());
   }
 
-  private hexToRgb(hex: string): { r: number; g: number; b: number } {
-    // Remove # if present
-    hex = hex.replace('#', '');
-
-    // Parse hex values
-    const r = parseInt(hex.substring(0, 2), 16);
-    const g = parseInt(hex.substring(2, 4), 16);
-    const b = parseInt(hex.substring(4, 6), 16);
-
-    return { r, g, b };
-  }
-
   private toggleKeyDisplay() {
     this.isKeyDisplayEnabled = !this.isKeyDisplayEnabled;
 
@@ -1199,7 +2542,18 @@ class ScreenAnnotationApp {
   }
 
   private togglePassThrough() {
-    this.isPassThroughEnabled = !this.isPassThroughEnabled;
+    this.setPassThroughState(!this.isPassThroughEnabled);
+
+    // Notify main process to toggle click-through
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (electronAPI) {
+      electronAPI.toggleClickThrough(this.isPassThroughEnabled);
+    }
+  }
+
+  // Updates the state and button only, the main process already knows when it toggled via hotkey
+  private setPassThroughState(enabled: boolean) {
+    this.isPassThroughEnabled = enabled;
 
     // Toggle button visual state
     const passThroughBtn = document.getElementById('passThroughBtn')!;
@@ -1208,52 +2562,389 @@ class ScreenAnnotationApp {
     } else {
       passThroughBtn.classList.remove('active');
     }
+  }
 
-    // Notify main process to toggle click-through
-    const electronAPI = (window as any).electronAPI as ElectronAPI;
-    if (electronAPI) {
-      electronAPI.toggleClickThrough(this.isPassThroughEnabled);
+  private setExportScale(scale: ExportScale) {
+    this.exportScale = scale;
+    document.getElementById('exportScaleOption')?.classList.toggle('active', scale === '1x');
+    this.saveSettings();
+  }
+
+  private takeScreenshot(mode: ScreenshotMode = this.screenshotMode) {
+    if (mode === 'annotations') {
+      this.saveCanvasScreenshot();
+    } else if (mode === 'region') {
+      this.startRegionCapture();
+    } else {
+      this.saveDesktopScreenshot();
+    }
+  }
+
+  private setScreenshotMode(mode: ScreenshotMode) {
+    this.screenshotMode = mode;
+    document.querySelectorAll('.screenshot-option').forEach(option => {
+      option.classList.toggle('active', (option as HTMLElement).dataset.capture === mode);
+    });
+    this.saveSettings();
+  }
+
+  // The annotations alone, on a transparent background
+  private async saveCanvasScreenshot() {
+    try {
+      await this.refreshBackdrop();
+
+      // The same annotations as vectors, with the overlay's background if it has one
+      const getPage = (): ExportPage => ({
+        area: { x: 0, y: 0, width: window.innerWidth, height: window.innerHeight },
+        background: this.currentBackground === 'transparent' ? null : this.currentBackground,
+        objects: this.drawnObjects
+      });
+
+      await this.saveScreenshotImage({
+        png: () => this.getCanvasPng(),
+        svg: () => this.exporter.toSvg(getPage()),
+        pdf: () => this.exporter.toPdf([getPage()])
+      });
+    } catch (error) {
+      console.error('Error taking screenshot:', error);
     }
   }
 
-  private async takeScreenshot() {
+  // The display underneath with the annotations on top, optionally cropped to a region (in CSS pixels)
+  private async saveDesktopScreenshot(region: Rect | null = null) {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.captureDesktop) return;
+
     try {
-      // Hide highlighter overlay temporarily for clean screenshot
-      const highlighterWasVisible = this.highlighterCanvas?.style.display === 'block';
-      if (highlighterWasVisible && this.highlighterCanvas) {
-        this.highlighterCanvas.style.display = 'none';
+      const capture = await electronAPI.captureDesktop();
+      if (!capture.success || !capture.screen) {
+        console.error('Failed to capture the desktop:', capture.error);
+        return;
       }
 
-      // Convert canvas to data URL
-      const dataUrl = this.canvas.toDataURL('image/png');
+      const screenImage = await this.loadImage(capture.screen);
+      const output = document.createElement('canvas');
+      output.width = screenImage.width;
+      output.height = screenImage.height;
+      const outputCtx = output.getContext('2d')!;
+      outputCtx.drawImage(screenImage, 0, 0);
+
+      // An opaque overlay background hides the desktop, as it does on screen
+      if (this.currentBackground !== 'transparent') {
+        outputCtx.fillStyle = this.currentBackground;
+        outputCtx.fillRect(0, 0, output.width, output.height);
+      }
 
-      // Restore highlighter if it was visible
-      if (highlighterWasVisible && this.highlighterCanvas) {
-        this.highlighterCanvas.style.display = 'block';
+      // Redactions obscure the desktop as it is in this capture, then go back to the live backdrop
+      const liveBackdrop = this.engine.backdrop;
+      if (this.currentBackground === 'transparent') {
+        this.engine.backdrop = { image: screenImage, scale: screenImage.width / window.innerWidth };
       }
 
-      // Send to main process to save
-      const electronAPI = (window as any).electronAPI as ElectronAPI;
-      if (electronAPI) {
-        const result = await electronAPI.saveScreenshot(dataUrl);
+      try {
+        this.redrawCanvas(false);
+        outputCtx.drawImage(this.canvas, 0, 0, output.width, output.height);
+      } finally {
+        this.engine.backdrop = liveBackdrop;
+        this.redrawCanvas();
+      }
 
-        if (result.success) {
-          console.log('Screenshot saved to:', result.filePath);
-          // Visual feedback - briefly flash the screenshot button
-          const screenshotBtn = document.getElementById('screenshotBtn')!;
-          screenshotBtn.style.backgroundColor = 'rgba(52, 199, 89, 0.5)';
-          setTimeout(() => {
-            screenshotBtn.style.backgroundColor = '';
-          }, 300);
-        } else if (!result.canceled) {
-          console.error('Failed to save screenshot:', result.error);
-        }
+      // Capture pixels per CSS pixel, the capture is taken at the display's native resolution
+      const ratio = output.width / window.innerWidth;
+      let crop: Rect = { x: 0, y: 0, width: output.width, height: output.height };
+
+      if (region) {
+        crop = { x: region.x * ratio, y: region.y * ratio, width: region.width * ratio, height: region.height * ratio };
       }
+
+      const scale = this.exportScale === '1x' ? 1 / ratio : 1;
+      const cropped = document.createElement('canvas');
+      cropped.width = Math.max(1, Math.round(crop.width * scale));
+      cropped.height = Math.max(1, Math.round(crop.height * scale));
+      const croppedCtx = cropped.getContext('2d')!;
+      croppedCtx.imageSmoothingQuality = 'high';
+      croppedCtx.drawImage(output, crop.x, crop.y, crop.width, crop.height, 0, 0, cropped.width, cropped.height);
+
+      await this.saveScreenshotImage({ png: () => cropped.toDataURL('image/png') });
     } catch (error) {
       console.error('Error taking screenshot:', error);
     }
   }
 
+  // The annotations at native resolution unless 1x export is chosen, without the selection frame
+  private getCanvasPng(): string {
+    if (this.selectedObjects.length > 0) {
+      this.redrawCanvas(false);
+    }
+
+    const dataUrl = canvasToPng(this.canvas, this.exportScale);
+
+    if (this.selectedObjects.length > 0) {
+      this.redrawCanvas();
+    }
+    return dataUrl;
+  }
+
+  private async saveScreenshotImage(data: ExportData) {
+    // The main process asks where to save, then only the chosen format is generated
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.chooseExportTarget) return;
+
+    const result = await saveExport(electronAPI, data);
+
+    if (result.success) {
+      console.log('Screenshot saved to:', result.filePath);
+      // Visual feedback - briefly flash the screenshot button
+      const screenshotBtn = document.getElementById('screenshotBtn')!;
+      screenshotBtn.style.backgroundColor = 'rgba(52, 199, 89, 0.5)';
+      setTimeout(() => {
+        screenshotBtn.style.backgroundColor = '';
+      }, 300);
+    } else if (!result.canceled) {
+      console.error('Failed to save screenshot:', result.error);
+    }
+  }
+
+  private loadImage(dataUrl: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Could not decode the captured image'));
+      image.src = dataUrl;
+    });
+  }
+
+  // Region screenshots are picked by dragging a rectangle, like a selection
+  private startRegionCapture() {
+    // The drag has to reach this window
+    if (this.isPassThroughEnabled) {
+      this.togglePassThrough();
+    }
+
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+
+    this.isPickingRegion = true;
+    this.regionStart = null;
+    this.canvas.style.cursor = 'crosshair';
+  }
+
+  private finishRegionCapture(region: Rect | null) {
+    this.isPickingRegion = false;
+    this.regionStart = null;
+    this.selectTool(this.currentTool); // Restores the tool's cursor
+    this.redrawCanvas();
+
+    // A click without a drag cancels
+    if (region && region.width >= 4 && region.height >= 4) {
+      this.saveDesktopScreenshot(region);
+    }
+  }
+
+  private getRegionRect(x: number, y: number): Rect {
+    const start = this.regionStart!;
+    return {
+      x: Math.min(start.x, x),
+      y: Math.min(start.y, y),
+      width: Math.abs(x - start.x),
+      height: Math.abs(y - start.y)
+    };
+  }
+
+  private setRecordDesktop(enabled: boolean) {
+    this.recordDesktop = enabled;
+    document.getElementById('recordDesktopOption')?.classList.toggle('active', enabled);
+    this.saveSettings();
+  }
+
+  private toggleRecording() {
+    // A second toggle while the recording is starting would start another one
+    if (this.isStartingRecording) return;
+
+    if (this.recorder.state === 'inactive') {
+      this.startRecording();
+    } else {
+      this.stopRecording();
+    }
+  }
+
+  private async startRecording() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    this.isStartingRecording = true;
+
+    try {
+      let desktopStream: MediaStream | null = null;
+      if (this.recordDesktop && electronAPI && electronAPI.getDesktopSource) {
+        try {
+          const sourceId = await electronAPI.getDesktopSource();
+          if (sourceId) {
+            // Keep this window out of the capture, its canvases are recorded on top instead
+            electronAPI.excludeFromCapture(true);
+            desktopStream = await navigator.mediaDevices.getUserMedia({
+              audio: false,
+              video: { mandatory: { chromeMediaSource: 'desktop', chromeMediaSourceId: sourceId } } as any
+            });
+          }
+        } catch (error) {
+          // Still record the annotations on their own
+          console.error('Could not capture the desktop:', error);
+          electronAPI.excludeFromCapture(false);
+        }
+      }
+
+      try {
+        await this.recorder.start(desktopStream);
+      } catch (error) {
+        console.error('Error starting recording:', error);
+        desktopStream?.getTracks().forEach(track => track.stop());
+        electronAPI?.excludeFromCapture(false);
+        return;
+      }
+
+      this.recordingTimer = window.setInterval(() => this.updateRecordingControls(), 500);
+      this.updateRecordingControls();
+    } finally {
+      this.isStartingRecording = false;
+    }
+  }
+
+  private async stopRecording() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+
+    const blob = await this.recorder.stop();
+    if (this.recordingTimer !== null) {
+      clearInterval(this.recordingTimer);
+      this.recordingTimer = null;
+    }
+    this.updateRecordingControls();
+
+    if (!electronAPI) return;
+    electronAPI.excludeFromCapture(false);
+    if (!blob) return;
+
+    try {
+      const result = await electronAPI.saveRecording(new Uint8Array(await blob.arrayBuffer()));
+
+      if (result.success) {
+        console.log('Recording saved to:', result.filePath);
+      } else if (!result.canceled) {
+        alert(`Could not save the recording: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving recording:', error);
+    }
+  }
+
+  private togglePauseRecording() {
+    if (this.recorder.state === 'recording') {
+      this.recorder.pause();
+    } else if (this.recorder.state === 'paused') {
+      this.recorder.resume();
+    }
+    this.updateRecordingControls();
+  }
+
+  private updateRecordingControls() {
+    const state = this.recorder.state;
+    const recordBtn = document.getElementById('recordBtn')!;
+    const pauseBtn = document.getElementById('pauseRecordingBtn') as HTMLButtonElement;
+    const indicator = document.getElementById('recordingIndicator')!;
+
+    recordBtn.classList.toggle('recording', state !== 'inactive');
+    recordBtn.title = state === 'inactive' ? 'Start Recording' : 'Stop and Save Recording';
+    pauseBtn.disabled = state === 'inactive';
+    pauseBtn.classList.toggle('active', state === 'paused');
+    pauseBtn.title = state === 'paused' ? 'Resume Recording' : 'Pause Recording';
+
+    indicator.classList.toggle('show', state !== 'inactive');
+    indicator.classList.toggle('paused', state === 'paused');
+
+    const seconds = Math.floor(this.recorder.getElapsed() / 1000);
+    const time = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    document.getElementById('recordingTime')!.textContent = state === 'paused' ? `Paused ${time}` : `REC ${time}`;
+  }
+
+  private createSessionDocument(): SessionDocument {
+    return {
+      format: 'spencil',
+      version: 1,
+      canvas: { width: window.innerWidth, height: window.innerHeight },
+      background: this.currentBackground,
+      grid: this.currentGrid,
+      objects: structuredClone(this.drawnObjects)
+    };
+  }
+
+  // Saves to the current session file, or asks where to save the first time (and for Save As)
+  private async saveSession(saveAs = false) {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.saveSession) return;
+
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+    this.commitRestyle();
+
+    try {
+      const session = this.createSessionDocument();
+      const result = saveAs || !this.sessionFilePath
+        ? await electronAPI.saveSessionAs(session)
+        : await electronAPI.saveSession(session, this.sessionFilePath);
+
+      if (result.success) {
+        this.sessionFilePath = result.filePath || null;
+        console.log('Session saved to:', result.filePath);
+      } else if (!result.canceled) {
+        alert(`Could not save the session: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving session:', error);
+    }
+  }
+
+  private async openSession() {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.openSession) return;
+
+    try {
+      const result = await electronAPI.openSession();
+
+      if (result.success && result.document) {
+        this.loadSessionDocument(result.document);
+        this.sessionFilePath = result.filePath || null;
+      } else if (!result.canceled) {
+        alert(`Could not open the session: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Error opening session:', error);
+    }
+  }
+
+  private loadSessionDocument(session: SessionDocument) {
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+    this.clearSelection();
+
+    // Skip anything this version can't draw, and rebuild bounds in case fonts differ on this machine
+    const objects = session.objects.filter(isValidObject);
+    for (const obj of objects) {
+      delete obj.createdAt;
+      this.engine.updateObjectBounds(obj);
+    }
+
+    // Opening replaces the drawing as one undoable step
+    const before = this.drawnObjects.slice();
+    this.drawnObjects = objects;
+    this.history.push(new ObjectListCommand('Open Session', this.objectListTarget, before, objects.slice()));
+
+    this.changeBackground(session.background || 'transparent');
+    this.changeGrid(session.grid || 'none');
+    this.redrawCanvas();
+    this.refreshBackdrop();
+  }
+
   private openWhiteboard() {
     const electronAPI = (window as any).electronAPI as ElectronAPI;
     if (electronAPI && electronAPI.openWhiteboard) {
@@ -1262,7 +2953,15 @@ class ScreenAnnotationApp {
   }
 
   private clear() {
+    const before = this.drawnObjects.slice();
+
+    this.selectedObjects = [];
+    this.drawnObjects = [];
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+    if (before.length > 0) {
+      this.history.push(new ObjectListCommand('Clear', this.objectListTarget, before, []));
+    }
   }
 
   private quit() {
@@ -1270,42 +2969,25 @@ class ScreenAnnotationApp {
     window.close();
   }
 
-  // Whiteboard-specific methods
-  private saveState() {
-    // Remove any states after current step (for redo)
-    this.history = this.history.slice(0, this.historyStep + 1);
-
-    // Save current state
-    const imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
-    this.history.push(imageData);
-    this.historyStep++;
-
-    // Limit history to 50 states to prevent memory issues
-    if (this.history.length > 50) {
-      this.history.shift();
-      this.historyStep--;
-    }
-
-    // Update undo/redo button states
-    this.updateUndoRedoButtons();
-  }
-
+  // History management (undo/redo)
   private undo() {
-    if (this.historyStep <= 0) return;
-
-    this.historyStep--;
-    const imageData = this.history[this.historyStep];
-    this.ctx.putImageData(imageData, 0, 0);
-    this.updateUndoRedoButtons();
+    this.commitRestyle();
+    if (this.history.undo()) {
+      this.syncAfterHistoryChange();
+    }
   }
 
   private redo() {
-    if (this.historyStep >= this.history.length - 1) return;
+    if (this.history.redo()) {
+      this.syncAfterHistoryChange();
+    }
+  }
 
-    this.historyStep++;
-    const imageData = this.history[this.historyStep];
-    this.ctx.putImageData(imageData, 0, 0);
-    this.updateUndoRedoButtons();
+  private syncAfterHistoryChange() {
+    // Selected objects may have been removed by the command
+    this.selectedObjects = this.selectedObjects.filter(obj => this.drawnObjects.includes(obj));
+    this.redrawCanvas();
+    this.startFadingInk();
   }
 
   private updateUndoRedoButtons() {
@@ -1313,69 +2995,433 @@ class ScreenAnnotationApp {
     const redoBtn = document.getElementById('redoBtn') as HTMLButtonElement;
 
     if (undoBtn) {
-      undoBtn.disabled = this.historyStep <= 0;
+      undoBtn.disabled = !this.history.canUndo();
     }
     if (redoBtn) {
-      redoBtn.disabled = this.historyStep >= this.history.length - 1;
+      redoBtn.disabled = !this.history.canRedo();
+    }
+  }
+
+  private addObject(obj: DrawObject) {
+    const before = this.drawnObjects.slice();
+    this.drawnObjects.push(obj);
+    this.history.push(new ObjectListCommand('Add', this.objectListTarget, before, this.drawnObjects.slice()));
+    this.stampFadingInk([obj]);
+  }
+
+  private deleteSelectedObjects(label = 'Delete') {
+    if (this.selectedObjects.length === 0) return;
+
+    const before = this.drawnObjects.slice();
+    this.drawnObjects = this.drawnObjects.filter(obj => !this.selectedObjects.includes(obj));
+    this.selectedObjects = [];
+    this.croppingObject = null;
+    this.history.push(new ObjectListCommand(label, this.objectListTarget, before, this.drawnObjects.slice()));
+    this.redrawCanvas();
+  }
+
+  // Apply style changes to the selected objects while a control is being adjusted
+  private previewRestyle(props: Partial<DrawObject>) {
+    if (this.selectedObjects.length === 0 || this.currentTool !== 'select') return;
+
+    const isTextStyle = (Object.keys(props) as Array<keyof DrawObject>).some(key => TEXT_STYLE_KEYS.includes(key));
+
+    for (const obj of this.selectedObjects) {
+      // Font settings only apply to text
+      if (isTextStyle && obj.type !== 'text') continue;
+
+      let pending = this.pendingRestyle.find(entry => entry.obj === obj);
+      if (!pending) {
+        pending = { obj, before: {} };
+        this.pendingRestyle.push(pending);
+      }
+
+      // Remember the original value of every property touched during this adjustment
+      for (const key of Object.keys(props) as Array<keyof DrawObject>) {
+        if (!(key in pending.before)) {
+          Object.assign(pending.before, { [key]: obj[key] });
+        }
+      }
+
+      Object.assign(obj, props);
+      this.engine.updateObjectBounds(obj);
+    }
+
+    this.redrawCanvas();
+  }
+
+  private commitRestyle() {
+    if (this.pendingRestyle.length === 0) return;
+
+    const commands: HistoryCommand[] = [];
+    for (const { obj, before } of this.pendingRestyle) {
+      const after: Partial<DrawObject> = {};
+      let changed = false;
+      for (const key of Object.keys(before) as Array<keyof DrawObject>) {
+        Object.assign(after, { [key]: obj[key] });
+        if (obj[key] !== before[key]) {
+          changed = true;
+        }
+      }
+
+      if (changed) {
+        commands.push(new UpdateObjectCommand('Restyle', obj, before, after, (o) => this.engine.updateObjectBounds(o)));
+      }
+    }
+    this.pendingRestyle = [];
+
+    if (commands.length > 0) {
+      this.history.push(new CompositeCommand('Restyle', commands));
+    }
+  }
+
+  // Grouping
+  private groupSelection() {
+    if (this.currentTool !== 'select' || this.selectedObjects.length < 2) return;
+
+    const groupId = this.createGroupId();
+    const commands = this.selectedObjects.map(obj => {
+      const command = new UpdateObjectCommand('Group', obj, { groupId: obj.groupId }, { groupId });
+      command.redo();
+      return command;
+    });
+
+    this.history.push(new CompositeCommand('Group', commands));
+    this.redrawCanvas();
+  }
+
+  private ungroupSelection() {
+    if (this.currentTool !== 'select') return;
+
+    const grouped = this.selectedObjects.filter(obj => obj.groupId);
+    if (grouped.length === 0) return;
+
+    const commands = grouped.map(obj => {
+      const command = new UpdateObjectCommand('Ungroup', obj, { groupId: obj.groupId }, { groupId: undefined });
+      command.redo();
+      return command;
+    });
+
+    this.history.push(new CompositeCommand('Ungroup', commands));
+    this.redrawCanvas();
+  }
+
+  private createGroupId(): string {
+    return 'group-' + Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 8);
+  }
+
+  private createObjectId(): string {
+    return 'obj-' + Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 8);
+  }
+
+  // An object together with everything grouped with it
+  private getGroupMembers(obj: DrawObject): DrawObject[] {
+    if (!obj.groupId) return [obj];
+    return this.drawnObjects.filter(other => other.groupId === obj.groupId);
+  }
+
+  // The selected object when exactly one object is selected
+  private getSingleSelection(): DrawObject | null {
+    if (this.selectedObjects.length !== 1) return null;
+    return this.selectedObjects[0];
+  }
+
+  private setEraserMode(mode: EraserMode) {
+    this.eraserMode = mode;
+
+    const eraserOptions = document.querySelectorAll('.eraser-option');
+    eraserOptions.forEach(opt => {
+      opt.classList.toggle('active', (opt as HTMLElement).dataset.eraserMode === mode);
+    });
+
+    this.saveSettings();
+  }
+
+  private setSmoothing(smoothing: StrokeSmoothing) {
+    this.smoothing = smoothing;
+
+    const smoothingOptions = document.querySelectorAll('.brush-option[data-smoothing]');
+    smoothingOptions.forEach(opt => {
+      opt.classList.toggle('active', (opt as HTMLElement).dataset.smoothing === smoothing);
+    });
+
+    this.saveSettings();
+  }
+
+  private setSmartShapes(enabled: boolean) {
+    this.smartShapes = enabled;
+    document.getElementById('smartShapesOption')?.classList.toggle('active', enabled);
+    this.saveSettings();
+  }
+
+  private setRedactStyle(style: RedactStyle) {
+    this.redactStyle = style;
+
+    const redactOptions = document.querySelectorAll('.redact-option');
+    redactOptions.forEach(opt => {
+      opt.classList.toggle('active', (opt as HTMLElement).dataset.redactStyle === style);
+    });
+
+    this.saveSettings();
+  }
+  private setMarkerOpacity(opacity: number) {
+    this.markerOpacity = opacity;
+
+    const markerOptions = document.querySelectorAll('.marker-option[data-opacity]');
+    markerOptions.forEach(opt => {
+      opt.classList.toggle('active', Number((opt as HTMLElement).dataset.opacity) === opacity);
+    });
+
+    this.saveSettings();
+  }
+
+  private setStraightMarker(enabled: boolean) {
+    this.straightMarker = enabled;
+    document.getElementById('straightMarkerOption')?.classList.toggle('active', enabled);
+    this.saveSettings();
+  }
+
+  // Straight marker lines end at the pointer, snapped level or upright when they are close to it
+  private getStraightMarkerEnd(x: number, y: number): StrokePoint {
+    const angle = Math.abs(Math.atan2(y - this.startY, x - this.startX));
+    if (angle < MARKER_SNAP_ANGLE || angle > Math.PI - MARKER_SNAP_ANGLE) {
+      return { x, y: this.startY };
+    }
+    if (Math.abs(angle - Math.PI / 2) < MARKER_SNAP_ANGLE) {
+      return { x: this.startX, y };
+    }
+    return { x, y };
+  }
+
+  private setFadingInk(enabled: boolean) {
+    this.fadingInk = enabled;
+    document.getElementById('fadingInkOption')?.classList.toggle('active', enabled);
+
+    // Whatever is still on screen stays when fading ink is turned off
+    if (!enabled) {
+      for (const obj of this.drawnObjects) {
+        delete obj.createdAt;
+      }
+      this.redrawCanvas();
+    }
+    this.saveSettings();
+  }
+
+  private setFadeDelay(seconds: number) {
+    this.fadeDelay = FADE_DELAYS.includes(seconds) ? seconds : 5;
+    const label = document.querySelector('#fadeDelayOption span');
+    if (label) {
+      label.textContent = `Fade After ${this.fadeDelay}s`;
+    }
+    this.saveSettings();
+  }
+
+  // Starts the fade on newly drawn objects
+  private stampFadingInk(objects: DrawObject[]) {
+    if (!this.fadingInk) return;
+
+    const now = Date.now();
+    for (const obj of objects) {
+      obj.createdAt = now;
+    }
+    this.startFadingInk();
+  }
+
+  private startFadingInk() {
+    if (!this.fadingInk || this.isFadeLoopRunning) return;
+
+    this.isFadeLoopRunning = true;
+    requestAnimationFrame(() => this.animateFadingInk());
+  }
+
+  // Runs while fading objects are on screen, like the laser pointer trail
+  private animateFadingInk() {
+    const fading = this.drawnObjects.filter(obj => obj.createdAt !== undefined);
+    if (!this.fadingInk || fading.length === 0) {
+      this.isFadeLoopRunning = false;
+      return;
+    }
+
+    // Rubber bands and shape previews are drawn over the canvas between pointer moves,
+    // so the canvas is left alone until they are finished
+    if (!this.savedImageData && !this.isSelecting && !this.isPickingRegion) {
+      const now = Date.now();
+
+      // Objects being moved or edited keep their full strength until they are let go
+      const held = this.isDraggingObject || this.activeHandle ? this.selectedObjects.slice() : [];
+      if (this.editingTextObject) {
+        held.push(this.editingTextObject);
+      }
+      for (const obj of held) {
+        if (obj.createdAt !== undefined) {
+          obj.createdAt = now;
+        }
+      }
+
+      const faded = fading.filter(obj => this.getFadeOpacity(obj, now) === 0);
+      if (faded.length > 0) {
+        this.removeFadedObjects(faded);
+      }
+      if (faded.length > 0 || fading.some(obj => this.getFadeOpacity(obj, now) < 1)) {
+        this.redrawCanvas();
+        if (this.currentStroke) {
+          this.engine.drawObject(this.currentStroke);
+        }
+      }
+    }
+
+    requestAnimationFrame(() => this.animateFadingInk());
+  }
+
+  private getFadeOpacity(obj: DrawObject, now: number): number {
+    if (!this.fadingInk || obj.createdAt === undefined) return 1;
+
+    const fadeStart = obj.createdAt + this.fadeDelay * 1000;
+    return Math.max(0, Math.min(1, 1 - (now - fadeStart) / FADE_OUT_DURATION));
+  }
+
+  // Faded objects are gone for good, undo doesn't bring them back
+  private removeFadedObjects(faded: DrawObject[]) {
+    this.drawnObjects = this.drawnObjects.filter(obj => !faded.includes(obj));
+    this.selectedObjects = this.selectedObjects.filter(obj => !faded.includes(obj));
+    this.pendingRestyle = this.pendingRestyle.filter(entry => !faded.includes(entry.obj));
+    if (this.croppingObject && faded.includes(this.croppingObject)) {
+      this.croppingObject = null;
+    }
+    this.history.forget(faded);
+  }
+
+
+  // Takes a new picture of the desktop for redactions to obscure. The overlays are hidden
+  // while it is captured, so by default this only happens when there are redactions to update.
+  private async refreshBackdrop(always = false) {
+    const electronAPI = (window as any).electronAPI as ElectronAPI;
+    if (!electronAPI || !electronAPI.captureDesktop || this.isRefreshingBackdrop) return;
+    if (!always && !this.drawnObjects.some(obj => obj.type === 'redaction')) return;
+
+    // An opaque background hides the desktop, so redactions only need to cover the area
+    if (this.currentBackground !== 'transparent') {
+      this.engine.backdrop = null;
+      this.redrawCanvas();
+      return;
+    }
+
+    this.isRefreshingBackdrop = true;
+    try {
+      const capture = await electronAPI.captureDesktop();
+      if (!capture.success || !capture.screen) {
+        console.error('Failed to capture the desktop:', capture.error);
+        return;
+      }
+
+      const image = await this.loadImage(capture.screen);
+      this.engine.backdrop = { image, scale: image.width / window.innerWidth };
+      this.redrawCanvas();
+    } catch (error) {
+      console.error('Error refreshing the redaction backdrop:', error);
+    } finally {
+      this.isRefreshingBackdrop = false;
     }
   }
 
   private erase(x1: number, y1: number, x2: number, y2: number) {
-    const prevComposite = this.ctx.globalCompositeOperation;
-    this.ctx.globalCompositeOperation = 'destination-out';
+    const remaining = this.engine.eraseObjects(this.drawnObjects, x1, y1, x2, y2, this.size, this.eraserMode === 'partial');
+    if (!remaining) return;
 
-    this.ctx.beginPath();
-    this.ctx.strokeStyle = 'rgba(0,0,0,1)';
-    this.ctx.lineWidth = this.size * 2;
-    this.ctx.lineCap = 'round';
-    this.ctx.moveTo(x1, y1);
-    this.ctx.lineTo(x2, y2);
-    this.ctx.stroke();
+    this.drawnObjects = remaining;
+    this.hasErasedInStroke = true;
+
+    this.redrawCanvas();
+  }
+
+  private handleDoubleClick(e: MouseEvent) {
+    if (this.currentTool !== 'select' || this.isMouseOverToolbar) return;
+
+    // Double-click re-opens a text object for editing, or crops an image
+    const hitObject = this.engine.hitTestObject(this.drawnObjects, e.clientX, e.clientY);
+    if (hitObject?.type === 'text') {
+      this.editTextObject(hitObject);
+    } else if (hitObject?.type === 'image') {
+      this.toggleCrop(hitObject);
+    }
+  }
 
-    this.ctx.globalCompositeOperation = prevComposite;
+  private editTextObject(obj: DrawObject) {
+    this.clearSelection();
+
+    // Load the object's style so the toolbar reflects it while editing
+    this.color = obj.color;
+    this.fontSize = obj.fontSize || this.fontSize;
+    this.fontFamily = obj.fontFamily || DEFAULT_FONT_FAMILY;
+    this.isBold = !!obj.bold;
+    this.isItalic = !!obj.italic;
+    this.isUnderline = !!obj.underline;
+    this.textAlign = obj.textAlign || 'left';
+    this.textBackground = !!obj.textBackground;
+    this.updateTextControls();
+
+    this.createTextInput(obj.x!, obj.y!, obj);
   }
 
-  private createTextInput(x: number, y: number) {
+  private createTextInput(x: number, y: number, target: DrawObject | null = null) {
     // Finalize existing text input if any
     if (this.textInput) {
       this.finalizeTextInput();
     }
 
-    // Create textarea element
-    this.textInput = document.createElement('textarea');
+    this.editingTextObject = target;
+    this.textInputOrigin = { x, y };
+
+    // Create textarea element, offset by its padding and border so the text lines up with the result
+    const input = document.createElement('textarea');
+    this.textInput = input;
     this.textInput.style.position = 'fixed';
-    this.textInput.style.left = x + 'px';
-    this.textInput.style.top = y + 'px';
-    this.textInput.style.fontSize = this.fontSize + 'px';
-    this.textInput.style.color = this.color;
+    this.textInput.style.left = (x - 10) + 'px';
+    this.textInput.style.top = (y - 10) + 'px';
     this.textInput.style.background = 'rgba(255, 255, 255, 0.9)';
-    this.textInput.style.border = '2px solid ' + this.color;
     this.textInput.style.borderRadius = '4px';
     this.textInput.style.padding = '8px';
     this.textInput.style.zIndex = '9999';
     this.textInput.style.minWidth = '200px';
     this.textInput.style.minHeight = '40px';
     this.textInput.style.resize = 'both';
-    this.textInput.style.fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif';
+    this.textInput.style.lineHeight = '1.2';
+    this.applyTextInputStyle();
+
+    if (target) {
+      this.textInput.value = target.text || '';
+
+      // Hide the object while its text is being edited
+      this.redrawCanvas();
+    }
 
     document.body.appendChild(this.textInput);
 
     // Focus the text input
     setTimeout(() => {
-      if (this.textInput) {
-        this.textInput.focus();
+      if (this.textInput === input) {
+        input.focus();
         this.isEditingText = true;
       }
     }, 50);
 
     // Handle blur and Enter key
     setTimeout(() => {
-      if (this.textInput) {
-        this.textInput.addEventListener('blur', () => {
-          setTimeout(() => this.finalizeTextInput(), 100);
+      if (this.textInput === input) {
+        input.addEventListener('blur', (e) => {
+          // Moving focus to a toolbar control keeps the text open for styling
+          const toolbar = document.getElementById('toolbar');
+          if (toolbar && e.relatedTarget instanceof Node && toolbar.contains(e.relatedTarget)) {
+            return;
+          }
+          setTimeout(() => {
+            if (this.textInput === input) {
+              this.finalizeTextInput();
+            }
+          }, 100);
         });
 
-        this.textInput.addEventListener('keydown', (e) => {
+        input.addEventListener('keydown', (e) => {
           if (e.key === 'Escape') {
             this.finalizeTextInput();
           }
@@ -1384,12 +3430,81 @@ class ScreenAnnotationApp {
     }, 100);
   }
 
+  private applyTextInputStyle() {
+    if (!this.textInput) return;
+
+    this.textInput.style.fontSize = this.fontSize + 'px';
+    this.textInput.style.fontFamily = this.fontFamily;
+    this.textInput.style.fontWeight = this.isBold ? 'bold' : 'normal';
+    this.textInput.style.fontStyle = this.isItalic ? 'italic' : 'normal';
+    this.textInput.style.textDecoration = this.isUnderline ? 'underline' : 'none';
+    this.textInput.style.textAlign = this.textAlign;
+    this.textInput.style.color = this.color;
+    this.textInput.style.border = '2px solid ' + this.color;
+  }
+
+  // A text style control changed
+  private applyTextStyle(props: Partial<DrawObject>) {
+    this.updateTextControls();
+
+    if (this.textInput) {
+      this.applyTextInputStyle();
+      this.textInput.focus();
+    } else {
+      this.previewRestyle(props);
+      this.commitRestyle();
+    }
+  }
+
+  private updateTextControls() {
+    const colorPicker = document.getElementById('colorPicker') as HTMLInputElement;
+    const fontSizeSelect = document.getElementById('fontSizeSelect') as HTMLSelectElement;
+    const fontFamilySelect = document.getElementById('fontFamilySelect') as HTMLSelectElement;
+    const textAlignSelect = document.getElementById('textAlignSelect') as HTMLSelectElement;
+
+    colorPicker.value = this.color;
+    fontSizeSelect.value = String(this.fontSize);
+    fontFamilySelect.value = this.fontFamily;
+    textAlignSelect.value = this.textAlign;
+    document.getElementById('boldBtn')?.classList.toggle('active', this.isBold);
+    document.getElementById('italicBtn')?.classList.toggle('active', this.isItalic);
+    document.getElementById('underlineBtn')?.classList.toggle('active', this.isUnderline);
+    document.getElementById('textBackgroundBtn')?.classList.toggle('active', this.textBackground);
+  }
+
+  private getCurrentTextStyle(): Partial<DrawObject> {
+    return {
+      color: this.color,
+      fontSize: this.fontSize,
+      fontFamily: this.fontFamily,
+      bold: this.isBold,
+      italic: this.isItalic,
+      underline: this.isUnderline,
+      textAlign: this.textAlign,
+      textBackground: this.textBackground
+    };
+  }
+
+  private getTextProperties(obj: DrawObject): Partial<DrawObject> {
+    return {
+      text: obj.text,
+      color: obj.color,
+      fontSize: obj.fontSize,
+      fontFamily: obj.fontFamily,
+      bold: obj.bold,
+      italic: obj.italic,
+      underline: obj.underline,
+      textAlign: obj.textAlign,
+      textBackground: obj.textBackground
+    };
+  }
+
   private finalizeTextInput() {
-    if (!this.textInput || !this.isEditingText) return;
+    if (!this.textInput) return;
 
     const text = this.textInput.value.trim();
-    const x = parseFloat(this.textInput.style.left);
-    const y = parseFloat(this.textInput.style.top);
+    const { x, y } = this.textInputOrigin;
+    const target = this.editingTextObject;
 
     // Remove the text input element
     if (this.textInput.parentNode) {
@@ -1397,42 +3512,49 @@ class ScreenAnnotationApp {
     }
     this.textInput = null;
     this.isEditingText = false;
-
-    // Draw the text on canvas if not empty
-    if (text) {
-      this.ctx.font = `${this.fontSize}px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif`;
-      this.ctx.fillStyle = this.color;
-      this.ctx.textBaseline = 'top';
-
-      // Draw each line
-      const lines = text.split('\n');
-      lines.forEach((line, index) => {
-        this.ctx.fillText(line, x, y + (index * this.fontSize * 1.2));
-      });
-
+    this.editingTextObject = null;
+
+    if (target) {
+      if (!text) {
+        // Emptying the text removes the object
+        const before = this.drawnObjects.slice();
+        this.drawnObjects = this.drawnObjects.filter(obj => obj !== target);
+        this.history.push(new ObjectListCommand('Delete', this.objectListTarget, before, this.drawnObjects.slice()));
+      } else {
+        const before = this.getTextProperties(target);
+        Object.assign(target, { text }, this.getCurrentTextStyle());
+        this.engine.updateObjectBounds(target);
+
+        const after = this.getTextProperties(target);
+        const changed = (Object.keys(after) as Array<keyof DrawObject>).some(key => after[key] !== before[key]);
+        if (changed) {
+          this.history.push(new UpdateObjectCommand('Edit Text', target, before, after, (o) => this.engine.updateObjectBounds(o)));
+        }
+      }
+    } else if (text) {
       // Create text object for dragging
       const textObject: DrawObject = {
         type: 'text',
         tool: 'text',
-        color: this.color,
         size: this.size,
         text: text,
-        fontSize: this.fontSize,
         x: x,
         y: y,
-        bounds: this.calculateTextBounds(text, x, y, this.fontSize)
-      };
-
-      this.drawnObjects.push(textObject);
+        ...this.getCurrentTextStyle()
+      } as DrawObject;
+      textObject.bounds = this.engine.calculateTextBounds(textObject);
 
-      // Save state for undo
-      this.saveState();
+      this.addObject(textObject);
     }
+
+    this.redrawCanvas();
   }
 
   private changeBackground(bg: string) {
     this.currentBackground = bg;
     document.body.style.background = bg;
+    this.refreshBackdrop();
+    this.saveSettings();
   }
 
   private changeGrid(grid: string) {
@@ -1444,248 +3566,107 @@ class ScreenAnnotationApp {
     } else if (grid === 'lines') {
       document.body.classList.add('grid-lines');
     }
+
+    this.saveSettings();
   }
 
   // Selection helper methods
   private clearSelection() {
-    if (this.selectionRect && this.selectedImageData) {
-      // Paste the selection back before clearing
-      this.ctx.putImageData(this.selectedImageData, this.selectionRect.x, this.selectionRect.y);
-    }
-    this.selectedImageData = null;
-    this.selectionRect = null;
-    this.isDraggingSelection = false;
-    this.isSelecting = false;
-  }
+    this.commitRestyle();
 
-  private isInsideSelection(x: number, y: number): boolean {
-    if (!this.selectionRect) return false;
-    return (
-      x >= this.selectionRect.x &&
-      x <= this.selectionRect.x + this.selectionRect.width &&
-      y >= this.selectionRect.y &&
-      y <= this.selectionRect.y + this.selectionRect.height
-    );
-  }
-
-  private drawSelectionRect(x1: number, y1: number, x2: number, y2: number) {
-    const x = Math.min(x1, x2);
-    const y = Math.min(y1, y2);
-    const width = Math.abs(x2 - x1);
-    const height = Math.abs(y2 - y1);
-
-    // Draw blue dashed rectangle
-    this.ctx.strokeStyle = '#4287f5';
-    this.ctx.lineWidth = 2;
-    this.ctx.setLineDash([5, 5]);
-    this.ctx.strokeRect(x, y, width, height);
-    this.ctx.setLineDash([]);
-  }
-
-  private finalizeSelection(x: number, y: number, width: number, height: number) {
-    // Store selection rectangle
-    this.selectionRect = { x, y, width, height };
-
-    // Cut the selected area
-    this.selectedImageData = this.ctx.getImageData(x, y, width, height);
-
-    // Clear the selected area (make it transparent)
-    this.ctx.clearRect(x, y, width, height);
+    const hadSelection = this.isSelecting || this.selectedObjects.length > 0;
+    this.selectedObjects = [];
+    this.croppingObject = null;
+    this.isSelecting = false;
+    this.isDraggingObject = false;
 
-    // Redraw with selection border
-    this.drawSelectionRect(x, y, x + width, y + height);
+    if (hadSelection) {
+      this.redrawCanvas();
+    }
   }
 
-  private moveSelection(newX: number, newY: number) {
-    if (!this.selectionRect || !this.selectedImageData || !this.savedImageData) return;
-
-    // Restore canvas to clean state
-    this.ctx.putImageData(this.savedImageData, 0, 0);
+  private selectObjectsInRect(rect: { x: number; y: number; width: number; height: number }) {
+    const selected = new Set(this.selectedObjects);
 
-    // Update selection position
-    this.selectionRect.x = newX;
-    this.selectionRect.y = newY;
-
-    // Draw image at new position
-    this.ctx.putImageData(this.selectedImageData, newX, newY);
+    for (const obj of this.engine.getObjectsInRect(this.drawnObjects, rect)) {
+      this.getGroupMembers(obj).forEach(member => selected.add(member));
+    }
 
-    // Draw selection border at new position
-    this.drawSelectionRect(
-      newX,
-      newY,
-      newX + this.selectionRect.width,
-      newY + this.selectionRect.height
-    );
+    // Keep drawing order so moving and deleting behave predictably
+    this.selectedObjects = this.drawnObjects.filter(obj => selected.has(obj));
   }
 
-  private pasteSelection() {
-    if (!this.selectionRect || !this.selectedImageData) return;
-
-    // Paste the selection at current position
-    this.ctx.putImageData(this.selectedImageData, this.selectionRect.x, this.selectionRect.y);
+  // Object management methods for draggable items
+  private redrawCanvas(showSelection = true) {
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.redrawAllObjects();
 
-    // Clear selection
-    this.selectedImageData = null;
-    this.selectionRect = null;
+    if (showSelection) {
+      // The whole picture shows faintly behind an image being cropped
+      if (this.croppingObject && this.getSingleSelection() === this.croppingObject) {
+        this.engine.drawCropPreview(this.croppingObject);
+        this.engine.drawObject(this.croppingObject);
+      }
+      this.engine.drawSelectionChrome(this.selectedObjects);
+    }
   }
 
-  // Object management methods for draggable items
   private redrawAllObjects() {
-    // Redraw all stored objects
+    // Redraw all stored objects, except text that is open in the editor
+    const now = Date.now();
     for (const obj of this.drawnObjects) {
-      this.drawObject(obj);
-    }
-  }
-
-  private drawObject(obj: DrawObject) {
-    if (obj.type === 'brush' && obj.points && obj.points.length > 0) {
-      // Draw brush stroke
-      this.ctx.strokeStyle = obj.color;
-      this.ctx.lineWidth = obj.size;
-      this.ctx.lineCap = 'round';
-      this.ctx.lineJoin = 'round';
-
-      this.ctx.beginPath();
-      this.ctx.moveTo(obj.points[0].x, obj.points[0].y);
-      for (let i = 1; i < obj.points.length; i++) {
-        this.ctx.lineTo(obj.points[i].x, obj.points[i].y);
-      }
-      this.ctx.stroke();
-
-      // Draw initial dot if only one point
-      if (obj.points.length === 1) {
-        this.ctx.beginPath();
-        this.ctx.arc(obj.points[0].x, obj.points[0].y, obj.size / 2, 0, Math.PI * 2);
-        this.ctx.fillStyle = obj.color;
-        this.ctx.fill();
-      }
-    } else if (obj.type === 'shape' && obj.startX !== undefined && obj.startY !== undefined && obj.endX !== undefined && obj.endY !== undefined) {
-      // Draw shape
-      this.ctx.strokeStyle = obj.color;
-      this.ctx.fillStyle = obj.color;
-      this.ctx.lineWidth = obj.size;
-      this.drawShape(obj.startX, obj.startY, obj.endX, obj.endY, obj.tool);
-    } else if (obj.type === 'text' && obj.text && obj.x !== undefined && obj.y !== undefined && obj.fontSize) {
-      // Draw text
-      this.ctx.font = `${obj.fontSize}px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif`;
-      this.ctx.fillStyle = obj.color;
-      this.ctx.textBaseline = 'top';
-
-      const lines = obj.text.split('\n');
-      lines.forEach((line, index) => {
-        this.ctx.fillText(line, obj.x!, obj.y! + (index * obj.fontSize! * 1.2));
-      });
+      if (obj === this.editingTextObject) continue;
+      this.ctx.globalAlpha = this.getFadeOpacity(obj, now);
+      this.engine.drawObject(obj);
     }
+    this.ctx.globalAlpha = 1;
   }
 
-  private hitTestObject(x: number, y: number): DrawObject | null {
-    // Check objects in reverse order (most recent first)
-    for (let i = this.drawnObjects.length - 1; i >= 0; i--) {
-      const obj = this.drawnObjects[i];
-      if (obj.bounds) {
-        // Add some padding for easier selection
-        const padding = 10;
-        if (
-          x >= obj.bounds.x - padding &&
-          x <= obj.bounds.x + obj.bounds.width + padding &&
-          y >= obj.bounds.y - padding &&
-          y <= obj.bounds.y + obj.bounds.height + padding
-        ) {
-          return obj;
-        }
-      }
-    }
-    return null;
+  private startTransform(obj: DrawObject, handle: TransformHandle, mouseX: number, mouseY: number) {
+    this.activeHandle = handle;
+    this.transformStart = this.engine.startTransform(obj, mouseX, mouseY);
+    this.canvas.style.cursor = this.engine.getHandleCursor(handle);
   }
 
-  private moveObject(obj: DrawObject, deltaX: number, deltaY: number) {
-    if (obj.type === 'brush' && obj.points) {
-      // Move all points
-      for (const point of obj.points) {
-        point.x += deltaX;
-        point.y += deltaY;
-      }
-    } else if (obj.type === 'shape') {
-      // Move shape endpoints
-      if (obj.startX !== undefined) obj.startX += deltaX;
-      if (obj.startY !== undefined) obj.startY += deltaY;
-      if (obj.endX !== undefined) obj.endX += deltaX;
-      if (obj.endY !== undefined) obj.endY += deltaY;
-    } else if (obj.type === 'text') {
-      // Move text position
-      if (obj.x !== undefined) obj.x += deltaX;
-      if (obj.y !== undefined) obj.y += deltaY;
-    }
+  private rotateSelectedObject(mouseX: number, mouseY: number, snap: boolean) {
+    const obj = this.getSingleSelection();
+    if (!obj || !this.transformStart) return;
 
-    // Update bounds
-    if (obj.bounds) {
-      obj.bounds.x += deltaX;
-      obj.bounds.y += deltaY;
-    }
+    this.engine.rotateObject(obj, this.transformStart, mouseX, mouseY, snap);
   }
 
-  private calculateStrokeBounds(points: Array<{ x: number; y: number }>, size: number): { x: number; y: number; width: number; height: number } {
-    if (points.length === 0) {
-      return { x: 0, y: 0, width: 0, height: 0 };
-    }
-
-    let minX = points[0].x;
-    let minY = points[0].y;
-    let maxX = points[0].x;
-    let maxY = points[0].y;
+  private resizeSelectedObject(mouseX: number, mouseY: number, keepAspectRatio: boolean) {
+    const obj = this.getSingleSelection();
+    if (!obj || !this.transformStart || !this.activeHandle) return;
 
-    for (const point of points) {
-      minX = Math.min(minX, point.x);
-      minY = Math.min(minY, point.y);
-      maxX = Math.max(maxX, point.x);
-      maxY = Math.max(maxY, point.y);
+    if (obj === this.croppingObject) {
+      this.engine.cropObject(obj, this.transformStart, this.activeHandle, mouseX, mouseY);
+    } else {
+      this.engine.resizeObject(obj, this.transformStart, this.activeHandle, mouseX, mouseY, keepAspectRatio);
     }
-
-    // Add padding for stroke width
-    const padding = size / 2;
-    return {
-      x: minX - padding,
-      y: minY - padding,
-      width: maxX - minX + padding * 2,
-      height: maxY - minY + padding * 2
-    };
   }
 
-  private calculateShapeBounds(startX: number, startY: number, endX: number, endY: number, tool: Tool): { x: number; y: number; width: number; height: number } {
-    const minX = Math.min(startX, endX);
-    const minY = Math.min(startY, endY);
-    const maxX = Math.max(startX, endX);
-    const maxY = Math.max(startY, endY);
-
-    return {
-      x: minX,
-      y: minY,
-      width: maxX - minX,
-      height: maxY - minY
-    };
-  }
+  private finishTransform() {
+    const obj = this.getSingleSelection();
+    const start = this.transformStart;
+    const handle = this.activeHandle;
 
-  private calculateTextBounds(text: string, x: number, y: number, fontSize: number): { x: number; y: number; width: number; height: number } {
-    // Set font to measure text
-    this.ctx.font = `${fontSize}px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif`;
+    this.activeHandle = null;
+    this.transformStart = null;
+    this.canvas.style.cursor = 'default';
 
-    const lines = text.split('\n');
-    let maxWidth = 0;
+    if (!obj || !start) return;
 
-    // Find the longest line
-    for (const line of lines) {
-      const metrics = this.ctx.measureText(line);
-      maxWidth = Math.max(maxWidth, metrics.width);
-    }
+    // A handle clicked without dragging leaves nothing to undo
+    const geometry = this.engine.getGeometry(obj);
+    if (this.engine.isSameGeometry(start.geometry, geometry)) return;
 
-    const height = lines.length * fontSize * 1.2;
+    const label = handle === 'rotate' ? 'Rotate' : obj === this.croppingObject ? 'Crop' : 'Resize';
+    this.history.push(new UpdateObjectCommand(label, obj, start.geometry, geometry, (o) => this.engine.updateObjectBounds(o)));
 
-    return {
-      x: x,
-      y: y,
-      width: maxWidth,
-      height: height
-    };
+    if (obj.type === 'redaction') {
+      this.refreshBackdrop();
+    }
   }
 }
 
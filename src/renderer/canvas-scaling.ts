@@ -0,0 +1,46 @@
+// HiDPI helpers shared by the overlay and the whiteboard. Canvases are backed by
+// device pixels, while drawing and pointer coordinates stay in CSS pixels.
+
+type ExportScale = 'native' | '1x';
+
+// Sizes the canvas for the current devicePixelRatio and scales its context, so callers
+// keep drawing in CSS pixels. Like any canvas resize, this resets the context state.
+function resizeCanvasForDisplay(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D, width: number, height: number): number {
+  const ratio = window.devicePixelRatio || 1;
+
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  canvas.style.width = width + 'px';
+  canvas.style.height = height + 'px';
+  ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+  return ratio;
+}
+
+// devicePixelRatio changes without a resize event when a window moves to a display
+// with another scale factor, so listen for the matching media query to stop matching
+function watchPixelRatio(onChange: () => void) {
+  const query = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+  query.addEventListener('change', () => {
+    onChange();
+    watchPixelRatio(onChange);
+  }, { once: true });
+}
+
+// PNG data URL at device resolution, or downscaled to CSS pixels for '1x'
+function canvasToPng(canvas: HTMLCanvasElement, scale: ExportScale): string {
+  const ratio = window.devicePixelRatio || 1;
+  if (scale === 'native' || ratio === 1) {
+    return canvas.toDataURL('image/png');
+  }
+
+  const output = document.createElement('canvas');
+  output.width = Math.round(canvas.width / ratio);
+  output.height = Math.round(canvas.height / ratio);
+
+  const outputCtx = output.getContext('2d')!;
+  outputCtx.imageSmoothingQuality = 'high';
+  outputCtx.drawImage(canvas, 0, 0, output.width, output.height);
+
+  return output.toDataURL('image/png');
+}
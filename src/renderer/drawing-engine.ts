@@ -0,0 +1,1753 @@
+// Object model and drawing engine shared by the overlay and the whiteboard.
+// Both windows keep their drawing as a list of DrawObjects and render, hit test,
+// erase and transform them through a DrawingEngine bound to their canvas.
+
+type ShapeTool = 'arrow' | 'rectangle' | 'circle' | 'line' | 'roundRect' | 'star' | 'triangle';
+
+const SHAPE_TOOLS: ShapeTool[] = ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star', 'triangle'];
+
+type StrokeSmoothing = 'off' | 'low' | 'medium' | 'high';
+
+// How far each brush point lags behind the pointer, as a fraction of the distance
+const SMOOTHING_AMOUNTS: { [level in StrokeSmoothing]: number } = {
+  off: 0,
+  low: 0.3,
+  medium: 0.5,
+  high: 0.7
+};
+
+// Resize handles are named after compass points around the selection frame
+type TransformHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'rotate';
+
+type TextAlign = 'left' | 'center' | 'right';
+
+type RedactStyle = 'blur' | 'pixelate';
+
+// 'stroke' removes every object the eraser touches, 'partial' splits brush strokes
+type EraserMode = 'stroke' | 'partial';
+
+// How strongly redactions obscure what is behind them, in CSS pixels: blur radius and block size
+const REDACTION_STRENGTH = 12;
+
+// Redactions are filled with this where there is nothing to obscure, and in vector exports
+const REDACTION_FILL = '#808080';
+
+// Pen strokes range from this fraction of the brush size at the lightest touch to (2 - this)
+// times it at full pressure, so a pen pressed halfway draws at the brush size
+const MIN_PRESSURE_WIDTH = 0.2;
+
+// Marker strokes are this many times wider than the chosen size, enough to cover a line of text
+const MARKER_WIDTH_SCALE = 3;
+const DEFAULT_MARKER_OPACITY = 0.4;
+
+const DEFAULT_FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif';
+
+// Properties that only make sense on text objects
+const TEXT_STYLE_KEYS: Array<keyof DrawObject> = ['fontSize', 'fontFamily', 'bold', 'italic', 'underline', 'textAlign', 'textBackground'];
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface StrokePoint {
+  x: number;
+  y: number;
+  pressure?: number; // Pen pressure from 0 to 1, missing for mouse and touch input
+}
+
+interface DrawObject {
+  id?: string; // Assigned when the object is first shared with another window
+  type: 'brush' | 'shape' | 'text' | 'image' | 'redaction';
+  tool: 'brush' | 'marker' | 'text' | 'image' | 'redact' | ShapeTool;
+  color: string;
+  size: number;
+  points?: StrokePoint[]; // For brush and marker strokes
+  opacity?: number; // For marker strokes, from 0 to 1
+  startX?: number; // For shapes
+  startY?: number;
+  endX?: number;
+  endY?: number;
+  text?: string; // For text objects
+  fontSize?: number;
+  fontFamily?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  textAlign?: TextAlign;
+  textBackground?: boolean; // Draw a rounded pill behind the text
+  x?: number; // Position for text, images and redactions
+  y?: number;
+  width?: number; // Size for images and redactions
+  height?: number;
+  src?: string; // Image data URL
+  crop?: Rect; // Part of the picture shown, in image pixels - the whole picture when missing
+  redactStyle?: RedactStyle; // For redactions
+  rotation?: number; // Radians, around the center of the unrotated geometry
+  groupId?: string; // Objects sharing a group id are selected and moved together
+  createdAt?: number; // Time drawn with fading ink on, in ms since the epoch
+  bounds?: Rect; // Bounding box for hit testing
+}
+
+// State captured when a resize or rotation drag starts
+interface TransformStart {
+  geometry: Partial<DrawObject>;
+  localBounds: Rect;
+  center: { x: number; y: number };
+  rotation: number;
+  startAngle: number;
+}
+
+// Objects on the clipboard are JSON text tagged with this format, so they paste into
+// either window and can be told apart from text copied in other apps
+const CLIPBOARD_FORMAT = 'screen-annotation/objects';
+
+// What the main process reads from the system clipboard
+interface ClipboardContents {
+  text: string;
+  image: string | null; // PNG data URL
+}
+
+// Contents of a session file (.spencil), see "Session File Format" in the README. The whiteboard
+// stores its first page in the top-level fields and any further pages in pages.
+interface SessionDocument {
+  format: 'spencil';
+  version: number;
+  canvas: { width: number; height: number };
+  background: string;
+  grid: string;
+  objects: DrawObject[];
+  pages?: SessionPage[];
+}
+
+interface SessionPage {
+  background: string;
+  grid: string;
+  objects: DrawObject[];
+}
+
+interface SessionResult {
+  success: boolean;
+  filePath?: string;
+  document?: SessionDocument;
+  canceled?: boolean;
+  error?: string;
+}
+
+// Decoded images by data URL, shared by every engine so thumbnails don't decode their own copies
+const imageCache = new Map<string, HTMLImageElement>();
+
+// Drops decoded images none of the objects show. One that comes back, e.g. through undo,
+// is decoded again when it is next drawn.
+function pruneImageCache(objects: DrawObject[]) {
+  const used = new Set(objects.filter(obj => obj.type === 'image').map(obj => obj.src));
+  for (const src of imageCache.keys()) {
+    if (!used.has(src)) {
+      imageCache.delete(src);
+    }
+  }
+}
+
+function isShapeTool(tool: string): tool is ShapeTool {
+  return SHAPE_TOOLS.includes(tool as ShapeTool);
+}
+
+function serializeObjects(objects: DrawObject[]): string {
+  return JSON.stringify({ format: CLIPBOARD_FORMAT, version: 1, objects });
+}
+
+// The objects in clipboard text, or null when it holds anything else
+function parseSerializedObjects(text: string): DrawObject[] | null {
+  if (!text || !text.includes(CLIPBOARD_FORMAT)) return null;
+
+  try {
+    const data = JSON.parse(text);
+    if (data && data.format === CLIPBOARD_FORMAT && Array.isArray(data.objects)) {
+      return data.objects;
+    }
+  } catch (error) {
+    // Plain text that happens to mention the format
+  }
+  return null;
+}
+
+// Whether an object read from a file, the clipboard or another window is one this version can draw
+function isValidObject(obj: any): obj is DrawObject {
+  if (!obj || typeof obj !== 'object' || typeof obj.color !== 'string' || !Number.isFinite(obj.size)) return false;
+  if (obj.rotation !== undefined && !Number.isFinite(obj.rotation)) return false;
+
+  const areNumbers = (...values: unknown[]) => values.every(value => Number.isFinite(value));
+  switch (obj.type) {
+    case 'brush':
+      return (obj.tool === 'brush' || obj.tool === 'marker') && Array.isArray(obj.points) && obj.points.length > 0 &&
+        obj.points.every((point: any) => point && areNumbers(point.x, point.y));
+    case 'shape':
+      return isShapeTool(obj.tool) && areNumbers(obj.startX, obj.startY, obj.endX, obj.endY);
+    case 'text':
+      return typeof obj.text === 'string' && areNumbers(obj.x, obj.y, obj.fontSize);
+    case 'image':
+      return typeof obj.src === 'string' && obj.src.startsWith('data:image/') && areNumbers(obj.x, obj.y, obj.width, obj.height);
+    case 'redaction':
+      return areNumbers(obj.x, obj.y, obj.width, obj.height);
+    default:
+      return false;
+  }
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// A point of a brush stroke, with the pressure when it comes from a pen - mice and most
+// touchscreens only report pressed or not, which isn't worth keeping
+function getStrokePoint(x: number, y: number, e: PointerEvent): StrokePoint {
+  return e.pointerType === 'pen' ? { x, y, pressure: e.pressure } : { x, y };
+}
+
+// Pens report more positions than there are frames; all of them make for a smoother stroke
+function getPointerSamples(e: PointerEvent): PointerEvent[] {
+  const samples = e.getCoalescedEvents ? e.getCoalescedEvents() : [];
+  return samples.length > 0 ? samples : [e];
+}
+
+// Whether a pen is touching with its eraser end (the eraser button in Pointer Events terms)
+function isPenEraser(e: PointerEvent): boolean {
+  return e.pointerType === 'pen' && (e.buttons & 32) !== 0;
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  // Remove # if present
+  hex = hex.replace('#', '');
+
+  // Parse hex values
+  const r = parseInt(hex.substring(0, 2), 16);
+  const g = parseInt(hex.substring(2, 4), 16);
+  const b = parseInt(hex.substring(4, 6), 16);
+
+  return { r, g, b };
+}
+
+class DrawingEngine {
+  handleSize = 8;
+  rotateHandleOffset = 28;
+  viewScale = 1; // Zoom of a pannable canvas - selection chrome and hit padding keep their on-screen size
+
+  onImageLoad: (() => void) | null = null; // Images decode asynchronously, redraw when one is ready
+  private loadingImages = new Set<HTMLImageElement>();
+
+  // Picture of the desktop behind the canvas for redactions to obscure, with its pixels per canvas unit
+  backdrop: { image: CanvasImageSource; scale: number } | null = null;
+
+  constructor(private ctx: CanvasRenderingContext2D) {}
+
+  // Rendering
+
+  drawObject(obj: DrawObject) {
+    // Redactions sample the backdrop in canvas space, so they handle their own rotation
+    if (obj.type === 'redaction') {
+      this.drawRedaction(obj);
+      return;
+    }
+
+    if (obj.rotation) {
+      const center = this.getObjectCenter(obj);
+      this.ctx.save();
+      this.ctx.translate(center.x, center.y);
+      this.ctx.rotate(obj.rotation);
+      this.ctx.translate(-center.x, -center.y);
+      this.drawObjectGeometry(obj);
+      this.ctx.restore();
+    } else {
+      this.drawObjectGeometry(obj);
+    }
+  }
+
+  private drawObjectGeometry(obj: DrawObject) {
+    if (obj.type === 'brush' && obj.tool === 'marker' && obj.points && obj.points.length > 0) {
+      this.drawMarkerStroke(obj);
+    } else if (obj.type === 'brush' && obj.points && this.hasPressure(obj.points)) {
+      this.drawPressureStroke(obj);
+    } else if (obj.type === 'brush' && obj.points && obj.points.length > 0) {
+      // Draw brush stroke
+      this.ctx.strokeStyle = obj.color;
+      this.ctx.lineWidth = obj.size;
+      this.ctx.lineCap = 'round';
+      this.ctx.lineJoin = 'round';
+
+      this.ctx.beginPath();
+      this.ctx.moveTo(obj.points[0].x, obj.points[0].y);
+      for (let i = 1; i < obj.points.length; i++) {
+        this.ctx.lineTo(obj.points[i].x, obj.points[i].y);
+      }
+      this.ctx.stroke();
+
+      // Draw initial dot if only one point
+      if (obj.points.length === 1) {
+        this.drawDot(obj.points[0].x, obj.points[0].y, obj.color, obj.size);
+      }
+    } else if (obj.type === 'shape' && obj.startX !== undefined && obj.startY !== undefined && obj.endX !== undefined && obj.endY !== undefined) {
+      this.drawShape(obj.startX, obj.startY, obj.endX, obj.endY, obj.tool as ShapeTool, obj.color, obj.size);
+    } else if (obj.type === 'text' && obj.text && obj.x !== undefined && obj.y !== undefined && obj.fontSize) {
+      this.drawText(obj);
+    } else if (obj.type === 'image' && obj.src && obj.x !== undefined && obj.y !== undefined) {
+      this.drawImage(obj);
+    }
+  }
+
+  // Pen strokes change width along their length, so each segment is drawn on its own
+  private drawPressureStroke(obj: DrawObject) {
+    const points = obj.points!;
+    if (points.length === 1) {
+      this.drawDot(points[0].x, points[0].y, obj.color, this.getStrokeWidth(obj.size, points[0].pressure));
+      return;
+    }
+
+    for (let i = 1; i < points.length; i++) {
+      const width = this.getStrokeWidth(obj.size, this.getSegmentPressure(points[i - 1], points[i]));
+      this.drawLine(points[i - 1].x, points[i - 1].y, points[i].x, points[i].y, obj.color, width);
+    }
+  }
+
+  // The whole stroke is one translucent path, so it doesn't get darker where it crosses itself.
+  // Multiplying keeps whatever it is drawn over readable, and overlapping strokes darken like real ink.
+  private drawMarkerStroke(obj: DrawObject) {
+    const points = obj.points!;
+    const width = this.getLineWidth(obj);
+
+    this.ctx.save();
+    this.ctx.globalAlpha *= obj.opacity ?? DEFAULT_MARKER_OPACITY;
+    this.ctx.globalCompositeOperation = 'multiply';
+    this.ctx.strokeStyle = obj.color;
+    this.ctx.fillStyle = obj.color;
+
+    if (points.length === 1) {
+      // The chisel tip's footprint, for a click without dragging
+      this.ctx.fillRect(points[0].x - width / 4, points[0].y - width / 2, width / 2, width);
+    } else {
+      this.ctx.lineWidth = width;
+      this.ctx.lineCap = 'butt';
+      this.ctx.lineJoin = 'round';
+      this.ctx.beginPath();
+      this.ctx.moveTo(points[0].x, points[0].y);
+      for (let i = 1; i < points.length; i++) {
+        this.ctx.lineTo(points[i].x, points[i].y);
+      }
+      this.ctx.stroke();
+    }
+
+    this.ctx.restore();
+  }
+
+  // Width of the object's line before pen pressure is applied
+  getLineWidth(obj: DrawObject): number {
+    return obj.tool === 'marker' ? obj.size * MARKER_WIDTH_SCALE : obj.size;
+  }
+
+  hasPressure(points: StrokePoint[]): boolean {
+    return points.some(p => p.pressure !== undefined);
+  }
+
+  // Line width for a point of a stroke; points without pressure are drawn at the brush size
+  getStrokeWidth(size: number, pressure: number | undefined): number {
+    if (pressure === undefined) return size;
+    return size * (MIN_PRESSURE_WIDTH + pressure * 2 * (1 - MIN_PRESSURE_WIDTH));
+  }
+
+  getSegmentPressure(from: StrokePoint, to: StrokePoint): number | undefined {
+    if (from.pressure === undefined || to.pressure === undefined) {
+      return from.pressure ?? to.pressure;
+    }
+    return (from.pressure + to.pressure) / 2;
+  }
+
+  // One segment of a brush stroke that is still being drawn
+  drawLine(x1: number, y1: number, x2: number, y2: number, color: string, size: number) {
+    this.ctx.beginPath();
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = size;
+    this.ctx.lineCap = 'round';
+    this.ctx.lineJoin = 'round';
+    this.ctx.moveTo(x1, y1);
+    this.ctx.lineTo(x2, y2);
+    this.ctx.stroke();
+  }
+
+  drawDot(x: number, y: number, color: string, size: number) {
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, size / 2, 0, Math.PI * 2);
+    this.ctx.fillStyle = color;
+    this.ctx.fill();
+  }
+
+  drawShape(startX: number, startY: number, endX: number, endY: number, shape: ShapeTool, color: string, size: number) {
+    this.ctx.strokeStyle = color;
+    this.ctx.fillStyle = color;
+    this.ctx.lineWidth = size;
+    this.ctx.lineCap = 'round';
+    this.ctx.lineJoin = 'round';
+
+    switch (shape) {
+      case 'line':
+        this.drawLineShape(startX, startY, endX, endY);
+        break;
+      case 'arrow':
+        this.drawArrow(startX, startY, endX, endY, size);
+        break;
+      case 'rectangle':
+        this.drawRectangle(startX, startY, endX, endY);
+        break;
+      case 'circle':
+        this.drawCircle(startX, startY, endX, endY);
+        break;
+      case 'roundRect':
+        this.drawRoundedRectangle(startX, startY, endX, endY);
+        break;
+      case 'star':
+        this.drawStar(startX, startY, endX, endY);
+        break;
+      case 'triangle':
+        this.drawTriangle(startX, startY, endX, endY);
+        break;
+    }
+  }
+
+  private drawLineShape(x1: number, y1: number, x2: number, y2: number) {
+    this.ctx.beginPath();
+    this.ctx.moveTo(x1, y1);
+    this.ctx.lineTo(x2, y2);
+    this.ctx.stroke();
+  }
+
+  private drawArrow(x1: number, y1: number, x2: number, y2: number, size: number) {
+    const headLength = 20 + size * 2;
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+
+    // Draw line
+    this.ctx.beginPath();
+    this.ctx.moveTo(x1, y1);
+    this.ctx.lineTo(x2, y2);
+    this.ctx.stroke();
+
+    // Draw arrowhead
+    this.ctx.beginPath();
+    this.ctx.moveTo(x2, y2);
+    this.ctx.lineTo(
+      x2 - headLength * Math.cos(angle - Math.PI / 6),
+      y2 - headLength * Math.sin(angle - Math.PI / 6)
+    );
+    this.ctx.moveTo(x2, y2);
+    this.ctx.lineTo(
+      x2 - headLength * Math.cos(angle + Math.PI / 6),
+      y2 - headLength * Math.sin(angle + Math.PI / 6)
+    );
+    this.ctx.stroke();
+  }
+
+  private drawRectangle(x1: number, y1: number, x2: number, y2: number) {
+    const width = x2 - x1;
+    const height = y2 - y1;
+
+    this.ctx.beginPath();
+    this.ctx.rect(x1, y1, width, height);
+    this.ctx.stroke();
+  }
+
+  private drawCircle(x1: number, y1: number, x2: number, y2: number) {
+    const centerX = (x1 + x2) / 2;
+    const centerY = (y1 + y2) / 2;
+    const radiusX = Math.abs(x2 - x1) / 2;
+    const radiusY = Math.abs(y2 - y1) / 2;
+
+    this.ctx.beginPath();
+    this.ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
+    this.ctx.stroke();
+  }
+
+  private drawRoundedRectangle(x1: number, y1: number, x2: number, y2: number) {
+    const width = x2 - x1;
+    const height = y2 - y1;
+    const radius = Math.min(Math.abs(width), Math.abs(height)) * 0.15;
+
+    this.ctx.beginPath();
+    this.ctx.moveTo(x1 + radius, y1);
+    this.ctx.lineTo(x2 - radius, y1);
+    this.ctx.quadraticCurveTo(x2, y1, x2, y1 + radius);
+    this.ctx.lineTo(x2, y2 - radius);
+    this.ctx.quadraticCurveTo(x2, y2, x2 - radius, y2);
+    this.ctx.lineTo(x1 + radius, y2);
+    this.ctx.quadraticCurveTo(x1, y2, x1, y2 - radius);
+    this.ctx.lineTo(x1, y1 + radius);
+    this.ctx.quadraticCurveTo(x1, y1, x1 + radius, y1);
+    this.ctx.closePath();
+    this.ctx.stroke();
+  }
+
+  private drawStar(x1: number, y1: number, x2: number, y2: number) {
+    const centerX = (x1 + x2) / 2;
+    const centerY = (y1 + y2) / 2;
+    const radius = Math.min(Math.abs(x2 - x1), Math.abs(y2 - y1)) / 2;
+    const spikes = 5;
+    const outerRadius = radius;
+    const innerRadius = radius * 0.4;
+
+    this.ctx.beginPath();
+    for (let i = 0; i < spikes * 2; i++) {
+      const angle = (i * Math.PI) / spikes - Math.PI / 2;
+      const r = i % 2 === 0 ? outerRadius : innerRadius;
+      const x = centerX + r * Math.cos(angle);
+      const y = centerY + r * Math.sin(angle);
+
+      if (i === 0) {
+        this.ctx.moveTo(x, y);
+      } else {
+        this.ctx.lineTo(x, y);
+      }
+    }
+    this.ctx.closePath();
+    this.ctx.stroke();
+  }
+
+  // Apex in the middle of the start edge, base along the end edge - dragging upwards points it down
+  private drawTriangle(x1: number, y1: number, x2: number, y2: number) {
+    this.ctx.beginPath();
+    this.ctx.moveTo((x1 + x2) / 2, y1);
+    this.ctx.lineTo(x2, y2);
+    this.ctx.lineTo(x1, y2);
+    this.ctx.closePath();
+    this.ctx.stroke();
+  }
+
+  drawText(obj: DrawObject) {
+    const layout = this.getTextLayout(obj);
+    const fontSize = obj.fontSize!;
+
+    // Optional pill behind the text in a color that contrasts with it
+    if (obj.textBackground) {
+      const bounds = this.calculateTextBounds(obj);
+      const radius = Math.min(bounds.height / 2, fontSize * 0.8);
+      this.ctx.beginPath();
+      this.ctx.roundRect(bounds.x, bounds.y, bounds.width, bounds.height, radius);
+      this.ctx.fillStyle = this.getTextPillColor(obj.color);
+      this.ctx.fill();
+    }
+
+    this.ctx.font = this.getTextFont(obj);
+    this.ctx.fillStyle = obj.color;
+    this.ctx.textBaseline = 'top';
+
+    layout.lines.forEach((line, index) => {
+      const lineX = obj.x! + this.getLineOffset(obj.textAlign, layout.maxWidth, layout.widths[index]);
+      const lineY = obj.y! + index * layout.lineHeight;
+      this.ctx.fillText(line, lineX, lineY);
+
+      if (obj.underline && line.length > 0) {
+        const thickness = Math.max(1, fontSize / 15);
+        this.ctx.fillRect(lineX, lineY + fontSize * 1.05, layout.widths[index], thickness);
+      }
+    });
+  }
+
+  drawImage(obj: DrawObject) {
+    const image = this.getImage(obj.src!);
+    if (!image.complete || image.naturalWidth === 0) return;
+
+    const crop = obj.crop || { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight };
+    this.ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, obj.x!, obj.y!, obj.width!, obj.height!);
+  }
+
+  // The backdrop blurred or pixelated inside the redaction's outline. Without a backdrop
+  // (e.g. on the whiteboard) the outline is filled instead, so nothing shows through either way.
+  private drawRedaction(obj: DrawObject) {
+    if (obj.x === undefined || obj.y === undefined) return;
+
+    const corners = this.getFrameCorners(obj, this.getLocalBounds(obj));
+    const xs = corners.map(p => p.x);
+    const ys = corners.map(p => p.y);
+    const area = {
+      x: Math.min(...xs),
+      y: Math.min(...ys),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys)
+    };
+
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.moveTo(corners[0].x, corners[0].y);
+    for (let i = 1; i < corners.length; i++) {
+      this.ctx.lineTo(corners[i].x, corners[i].y);
+    }
+    this.ctx.closePath();
+    this.ctx.clip();
+
+    this.ctx.fillStyle = REDACTION_FILL;
+    this.ctx.fill();
+
+    if (this.backdrop && area.width >= 1 && area.height >= 1) {
+      const { image, scale } = this.backdrop;
+      const patch = document.createElement('canvas');
+      const patchCtx = patch.getContext('2d')!;
+
+      if (obj.redactStyle === 'pixelate') {
+        // Shrink to one pixel per block, then scale back up without smoothing
+        patch.width = Math.max(1, Math.ceil(area.width / REDACTION_STRENGTH));
+        patch.height = Math.max(1, Math.ceil(area.height / REDACTION_STRENGTH));
+        patchCtx.drawImage(image, area.x * scale, area.y * scale, patch.width * REDACTION_STRENGTH * scale, patch.height * REDACTION_STRENGTH * scale, 0, 0, patch.width, patch.height);
+
+        this.ctx.imageSmoothingEnabled = false;
+        this.ctx.drawImage(patch, area.x, area.y, patch.width * REDACTION_STRENGTH, patch.height * REDACTION_STRENGTH);
+      } else {
+        // Blur a larger area than shown, so the edges blur into the surroundings rather than transparency
+        const margin = REDACTION_STRENGTH * 2;
+        patch.width = Math.ceil(area.width + margin * 2);
+        patch.height = Math.ceil(area.height + margin * 2);
+        patchCtx.filter = `blur(${REDACTION_STRENGTH}px)`;
+        patchCtx.drawImage(image, (area.x - margin) * scale, (area.y - margin) * scale, patch.width * scale, patch.height * scale, 0, 0, patch.width, patch.height);
+
+        this.ctx.drawImage(patch, margin, margin, area.width, area.height, area.x, area.y, area.width, area.height);
+      }
+    }
+
+    this.ctx.restore();
+  }
+
+  // The parts of an image cropped away, faded, while its crop is being changed
+  drawCropPreview(obj: DrawObject) {
+    const full = this.getFullImageRect(obj);
+    if (!full) return;
+
+    this.ctx.save();
+    if (obj.rotation) {
+      const center = this.getObjectCenter(obj);
+      this.ctx.translate(center.x, center.y);
+      this.ctx.rotate(obj.rotation);
+      this.ctx.translate(-center.x, -center.y);
+    }
+    this.ctx.globalAlpha = 0.35;
+    this.ctx.drawImage(this.getImage(obj.src!), full.x, full.y, full.width, full.height);
+    this.ctx.restore();
+  }
+
+  // The decoded image for a data URL, loaded on first use
+  getImage(src: string): HTMLImageElement {
+    let image = imageCache.get(src);
+    if (!image) {
+      image = new Image();
+      image.src = src;
+      imageCache.set(src, image);
+    }
+
+    if (!image.complete && !this.loadingImages.has(image)) {
+      this.loadingImages.add(image);
+      image.addEventListener('load', () => {
+        this.loadingImages.delete(image!);
+        this.onImageLoad?.();
+      }, { once: true });
+    }
+    return image;
+  }
+
+  // An image object at the top-left, as large as the picture is in CSS pixels but no
+  // larger than maxWidth x maxHeight
+  async createImageObject(src: string, maxWidth: number, maxHeight: number): Promise<DrawObject> {
+    const image = this.getImage(src);
+    await image.decode();
+
+    const scale = Math.min(1 / (window.devicePixelRatio || 1), maxWidth / image.naturalWidth, maxHeight / image.naturalHeight);
+    const obj: DrawObject = {
+      type: 'image',
+      tool: 'image',
+      color: '#000000',
+      size: 0,
+      src,
+      x: 0,
+      y: 0,
+      width: image.naturalWidth * scale,
+      height: image.naturalHeight * scale
+    };
+    this.updateObjectBounds(obj);
+    return obj;
+  }
+
+  getTextFont(obj: DrawObject): string {
+    const style = obj.italic ? 'italic ' : '';
+    const weight = obj.bold ? 'bold ' : '';
+    return `${style}${weight}${obj.fontSize}px ${obj.fontFamily || DEFAULT_FONT_FAMILY}`;
+  }
+
+  getTextLayout(obj: DrawObject): { lines: string[]; widths: number[]; maxWidth: number; lineHeight: number } {
+    this.ctx.font = this.getTextFont(obj);
+
+    const lines = (obj.text || '').split('\n');
+    const widths = lines.map(line => this.ctx.measureText(line).width);
+
+    return {
+      lines,
+      widths,
+      maxWidth: Math.max(0, ...widths),
+      lineHeight: obj.fontSize! * 1.2
+    };
+  }
+
+  getLineOffset(align: TextAlign | undefined, maxWidth: number, lineWidth: number): number {
+    if (align === 'center') return (maxWidth - lineWidth) / 2;
+    if (align === 'right') return maxWidth - lineWidth;
+    return 0;
+  }
+
+  getTextPillColor(color: string): string {
+    const rgb = hexToRgb(color);
+    const luminance = (0.299 * rgb.r + 0.587 * rgb.g + 0.114 * rgb.b) / 255;
+    return luminance > 0.6 ? 'rgba(20, 20, 20, 0.8)' : 'rgba(255, 255, 255, 0.9)';
+  }
+
+  // Selection chrome
+
+  drawSelectionRect(x1: number, y1: number, x2: number, y2: number) {
+    const x = Math.min(x1, x2);
+    const y = Math.min(y1, y2);
+    const width = Math.abs(x2 - x1);
+    const height = Math.abs(y2 - y1);
+
+    // Draw blue dashed rectangle
+    this.ctx.strokeStyle = '#4287f5';
+    this.ctx.lineWidth = 2 / this.viewScale;
+    this.ctx.setLineDash([5 / this.viewScale, 5 / this.viewScale]);
+    this.ctx.strokeRect(x, y, width, height);
+    this.ctx.setLineDash([]);
+  }
+
+  drawSelectionChrome(selected: DrawObject[]) {
+    if (selected.length === 1) {
+      // Frame and handles around the selected object
+      this.drawSelectionFrame(selected[0]);
+      return;
+    }
+
+    if (selected.length === 0) return;
+
+    // Outline each object and frame the whole set
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    this.ctx.save();
+    this.ctx.strokeStyle = 'rgba(66, 135, 245, 0.5)';
+    this.ctx.lineWidth = 1 / this.viewScale;
+    for (const obj of selected) {
+      const corners = this.getFrameCorners(obj, this.getFrameRect(obj));
+      this.ctx.beginPath();
+      this.ctx.moveTo(corners[0].x, corners[0].y);
+      for (let i = 1; i < corners.length; i++) {
+        this.ctx.lineTo(corners[i].x, corners[i].y);
+      }
+      this.ctx.closePath();
+      this.ctx.stroke();
+
+      for (const corner of corners) {
+        minX = Math.min(minX, corner.x);
+        minY = Math.min(minY, corner.y);
+        maxX = Math.max(maxX, corner.x);
+        maxY = Math.max(maxY, corner.y);
+      }
+    }
+    this.ctx.restore();
+
+    const padding = 4 / this.viewScale;
+    this.drawSelectionRect(minX - padding, minY - padding, maxX + padding, maxY + padding);
+  }
+
+  private drawSelectionFrame(obj: DrawObject) {
+    const corners = this.getFrameCorners(obj, this.getFrameRect(obj));
+    const handles = this.getHandlePositions(obj);
+    const topCenter = handles.find(h => h.handle === 'n')!;
+    const rotateHandle = handles.find(h => h.handle === 'rotate')!;
+    const handleSize = this.handleSize / this.viewScale;
+
+    this.ctx.save();
+
+    // Dashed frame
+    this.ctx.strokeStyle = '#4287f5';
+    this.ctx.lineWidth = 2 / this.viewScale;
+    this.ctx.setLineDash([5 / this.viewScale, 5 / this.viewScale]);
+    this.ctx.beginPath();
+    this.ctx.moveTo(corners[0].x, corners[0].y);
+    for (let i = 1; i < corners.length; i++) {
+      this.ctx.lineTo(corners[i].x, corners[i].y);
+    }
+    this.ctx.closePath();
+    this.ctx.stroke();
+    this.ctx.setLineDash([]);
+
+    // Stem of the rotation handle
+    this.ctx.beginPath();
+    this.ctx.moveTo(topCenter.x, topCenter.y);
+    this.ctx.lineTo(rotateHandle.x, rotateHandle.y);
+    this.ctx.stroke();
+
+    // Handles
+    this.ctx.fillStyle = 'white';
+    for (const position of handles) {
+      this.ctx.beginPath();
+      if (position.handle === 'rotate') {
+        this.ctx.arc(position.x, position.y, handleSize / 2 + 1 / this.viewScale, 0, Math.PI * 2);
+      } else {
+        this.ctx.rect(position.x - handleSize / 2, position.y - handleSize / 2, handleSize, handleSize);
+      }
+      this.ctx.fill();
+      this.ctx.stroke();
+    }
+
+    this.ctx.restore();
+  }
+
+  // Hit testing
+
+  hitTestObject(objects: DrawObject[], x: number, y: number): DrawObject | null {
+    // Check objects in reverse order (most recent first)
+    for (let i = objects.length - 1; i >= 0; i--) {
+      const obj = objects[i];
+      if (obj.bounds) {
+        // Rotated objects are tested in their own unrotated frame
+        let bounds = obj.bounds;
+        let testX = x;
+        let testY = y;
+        if (obj.rotation) {
+          bounds = this.getLocalBounds(obj);
+          const local = this.toLocalPoint(obj, x, y);
+          testX = local.x;
+          testY = local.y;
+        }
+
+        // Add some padding for easier selection
+        const padding = 10 / this.viewScale;
+        if (
+          testX >= bounds.x - padding &&
+          testX <= bounds.x + bounds.width + padding &&
+          testY >= bounds.y - padding &&
+          testY <= bounds.y + bounds.height + padding
+        ) {
+          return obj;
+        }
+      }
+    }
+    return null;
+  }
+
+  // Objects whose bounding box touches the rectangle, in drawing order
+  getObjectsInRect(objects: DrawObject[], rect: Rect): DrawObject[] {
+    return objects.filter(obj =>
+      obj.bounds &&
+      obj.bounds.x <= rect.x + rect.width &&
+      obj.bounds.x + obj.bounds.width >= rect.x &&
+      obj.bounds.y <= rect.y + rect.height &&
+      obj.bounds.y + obj.bounds.height >= rect.y
+    );
+  }
+
+  hitTestHandle(obj: DrawObject, x: number, y: number): TransformHandle | null {
+    const reach = this.handleSize / this.viewScale;
+    for (const position of this.getHandlePositions(obj)) {
+      if (Math.abs(x - position.x) <= reach && Math.abs(y - position.y) <= reach) {
+        return position.handle;
+      }
+    }
+    return null;
+  }
+
+  getHandleCursor(handle: TransformHandle): string {
+    switch (handle) {
+      case 'nw':
+      case 'se':
+        return 'nwse-resize';
+      case 'ne':
+      case 'sw':
+        return 'nesw-resize';
+      case 'n':
+      case 's':
+        return 'ns-resize';
+      case 'e':
+      case 'w':
+        return 'ew-resize';
+      default:
+        return 'grab';
+    }
+  }
+
+  // Geometry
+
+  moveObject(obj: DrawObject, deltaX: number, deltaY: number) {
+    if (obj.type === 'brush' && obj.points) {
+      // Move all points
+      for (const point of obj.points) {
+        point.x += deltaX;
+        point.y += deltaY;
+      }
+    } else if (obj.type === 'shape') {
+      // Move shape endpoints
+      if (obj.startX !== undefined) obj.startX += deltaX;
+      if (obj.startY !== undefined) obj.startY += deltaY;
+      if (obj.endX !== undefined) obj.endX += deltaX;
+      if (obj.endY !== undefined) obj.endY += deltaY;
+    } else if (obj.type === 'text' || obj.type === 'image' || obj.type === 'redaction') {
+      // Move text, image or redaction position
+      if (obj.x !== undefined) obj.x += deltaX;
+      if (obj.y !== undefined) obj.y += deltaY;
+    }
+
+    // Update bounds
+    if (obj.bounds) {
+      obj.bounds.x += deltaX;
+      obj.bounds.y += deltaY;
+    }
+  }
+
+  updateObjectBounds(obj: DrawObject) {
+    const local = this.getLocalBounds(obj);
+
+    if (!obj.rotation) {
+      obj.bounds = local;
+      return;
+    }
+
+    // Axis-aligned box around the rotated frame
+    const corners = this.getFrameCorners(obj, local);
+    const xs = corners.map(p => p.x);
+    const ys = corners.map(p => p.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    obj.bounds = {
+      x: minX,
+      y: minY,
+      width: Math.max(...xs) - minX,
+      height: Math.max(...ys) - minY
+    };
+  }
+
+  // Bounds of the object's geometry before rotation is applied
+  getLocalBounds(obj: DrawObject): Rect {
+    if (obj.type === 'brush' && obj.points) {
+      return this.calculateStrokeBounds(obj.points, this.getLineWidth(obj));
+    } else if (obj.type === 'shape' && obj.startX !== undefined && obj.startY !== undefined && obj.endX !== undefined && obj.endY !== undefined) {
+      return this.calculateShapeBounds(obj.startX, obj.startY, obj.endX, obj.endY);
+    } else if (obj.type === 'text' && obj.text && obj.x !== undefined && obj.y !== undefined && obj.fontSize) {
+      return this.calculateTextBounds(obj);
+    } else if ((obj.type === 'image' || obj.type === 'redaction') && obj.x !== undefined && obj.y !== undefined) {
+      return { x: obj.x, y: obj.y, width: obj.width || 0, height: obj.height || 0 };
+    }
+    return obj.bounds ? { ...obj.bounds } : { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  getObjectCenter(obj: DrawObject): { x: number; y: number } {
+    const local = this.getLocalBounds(obj);
+    return { x: local.x + local.width / 2, y: local.y + local.height / 2 };
+  }
+
+  rotatePoint(x: number, y: number, cx: number, cy: number, angle: number): { x: number; y: number } {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return {
+      x: cx + (x - cx) * cos - (y - cy) * sin,
+      y: cy + (x - cx) * sin + (y - cy) * cos
+    };
+  }
+
+  // Map a screen point into the object's unrotated frame
+  toLocalPoint(obj: DrawObject, x: number, y: number): { x: number; y: number } {
+    if (!obj.rotation) return { x, y };
+    const center = this.getObjectCenter(obj);
+    return this.rotatePoint(x, y, center.x, center.y, -obj.rotation);
+  }
+
+  getFrameCorners(obj: DrawObject, rect: Rect): Array<{ x: number; y: number }> {
+    const center = this.getObjectCenter(obj);
+    const angle = obj.rotation || 0;
+    return [
+      this.rotatePoint(rect.x, rect.y, center.x, center.y, angle),
+      this.rotatePoint(rect.x + rect.width, rect.y, center.x, center.y, angle),
+      this.rotatePoint(rect.x + rect.width, rect.y + rect.height, center.x, center.y, angle),
+      this.rotatePoint(rect.x, rect.y + rect.height, center.x, center.y, angle)
+    ];
+  }
+
+  // Copy of everything a resize or rotation can change
+  getGeometry(obj: DrawObject): Partial<DrawObject> {
+    return {
+      points: obj.points ? obj.points.map(p => ({ ...p })) : undefined,
+      startX: obj.startX,
+      startY: obj.startY,
+      endX: obj.endX,
+      endY: obj.endY,
+      x: obj.x,
+      y: obj.y,
+      width: obj.width,
+      height: obj.height,
+      crop: obj.crop ? { ...obj.crop } : undefined,
+      fontSize: obj.fontSize,
+      rotation: obj.rotation
+    };
+  }
+
+  // Whether two copies from getGeometry are the same, treating no rotation as zero
+  isSameGeometry(a: Partial<DrawObject>, b: Partial<DrawObject>): boolean {
+    return JSON.stringify({ ...a, rotation: a.rotation || 0 }) === JSON.stringify({ ...b, rotation: b.rotation || 0 });
+  }
+
+  // Selection frame with resize and rotation handles
+  getFrameRect(obj: DrawObject): Rect {
+    const local = this.getLocalBounds(obj);
+    const padding = 4 / this.viewScale;
+    return {
+      x: local.x - padding,
+      y: local.y - padding,
+      width: local.width + padding * 2,
+      height: local.height + padding * 2
+    };
+  }
+
+  getHandlePositions(obj: DrawObject): Array<{ handle: TransformHandle; x: number; y: number }> {
+    const frame = this.getFrameRect(obj);
+    const center = this.getObjectCenter(obj);
+    const angle = obj.rotation || 0;
+    const left = frame.x;
+    const top = frame.y;
+    const right = frame.x + frame.width;
+    const bottom = frame.y + frame.height;
+    const midX = frame.x + frame.width / 2;
+    const midY = frame.y + frame.height / 2;
+
+    const positions: Array<{ handle: TransformHandle; x: number; y: number }> = [
+      { handle: 'nw', x: left, y: top },
+      { handle: 'n', x: midX, y: top },
+      { handle: 'ne', x: right, y: top },
+      { handle: 'e', x: right, y: midY },
+      { handle: 'se', x: right, y: bottom },
+      { handle: 's', x: midX, y: bottom },
+      { handle: 'sw', x: left, y: bottom },
+      { handle: 'w', x: left, y: midY },
+      { handle: 'rotate', x: midX, y: top - this.rotateHandleOffset / this.viewScale }
+    ];
+
+    return positions.map(p => ({ handle: p.handle, ...this.rotatePoint(p.x, p.y, center.x, center.y, angle) }));
+  }
+
+  // Transforms
+
+  startTransform(obj: DrawObject, mouseX: number, mouseY: number): TransformStart {
+    const center = this.getObjectCenter(obj);
+    return {
+      geometry: this.getGeometry(obj),
+      localBounds: this.getLocalBounds(obj),
+      center,
+      rotation: obj.rotation || 0,
+      startAngle: Math.atan2(mouseY - center.y, mouseX - center.x)
+    };
+  }
+
+  rotateObject(obj: DrawObject, start: TransformStart, mouseX: number, mouseY: number, snap: boolean) {
+    let rotation = start.rotation + Math.atan2(mouseY - start.center.y, mouseX - start.center.x) - start.startAngle;
+
+    // Hold Shift to snap to 15 degree steps
+    if (snap) {
+      const step = Math.PI / 12;
+      rotation = Math.round(rotation / step) * step;
+    }
+
+    obj.rotation = rotation;
+    this.updateObjectBounds(obj);
+  }
+
+  resizeObject(obj: DrawObject, start: TransformStart, handle: TransformHandle, mouseX: number, mouseY: number, keepAspectRatio: boolean) {
+    if (handle === 'rotate') return;
+
+    const box = start.localBounds;
+
+    // Work in the frame the object had when the drag started
+    const mouse = this.rotatePoint(mouseX, mouseY, start.center.x, start.center.y, -start.rotation);
+
+    // -1/1 for the side the handle is on, 0 when the handle doesn't affect that axis
+    const dirX = handle.includes('w') ? -1 : handle.includes('e') ? 1 : 0;
+    const dirY = handle.includes('n') ? -1 : handle.includes('s') ? 1 : 0;
+
+    // The opposite edge stays fixed
+    const anchorX = dirX === -1 ? box.x + box.width : dirX === 1 ? box.x : box.x + box.width / 2;
+    const anchorY = dirY === -1 ? box.y + box.height : dirY === 1 ? box.y : box.y + box.height / 2;
+
+    let scaleX = 1;
+    let scaleY = 1;
+    if (dirX !== 0 && box.width > 0) {
+      scaleX = (mouse.x - anchorX) / (dirX * box.width);
+    }
+    if (dirY !== 0 && box.height > 0) {
+      scaleY = (mouse.y - anchorY) / (dirY * box.height);
+    }
+
+    if (keepAspectRatio && dirX !== 0 && dirY !== 0) {
+      const uniform = Math.max(Math.abs(scaleX), Math.abs(scaleY));
+      scaleX = Math.sign(scaleX || 1) * uniform;
+      scaleY = Math.sign(scaleY || 1) * uniform;
+    }
+
+    // Avoid collapsing the object to nothing
+    const minScale = 0.05;
+    if (Math.abs(scaleX) < minScale) scaleX = Math.sign(scaleX || 1) * minScale;
+    if (Math.abs(scaleY) < minScale) scaleY = Math.sign(scaleY || 1) * minScale;
+
+    const geometry = start.geometry;
+
+    if (obj.type === 'text') {
+      // Text scales uniformly through its font size
+      const scale = Math.max(
+        dirX !== 0 ? Math.abs(scaleX) : 0,
+        dirY !== 0 ? Math.abs(scaleY) : 0
+      );
+      const fontSize = Math.max(6, geometry.fontSize! * scale);
+      const actualScale = fontSize / geometry.fontSize!;
+      const width = box.width * actualScale;
+      const height = box.height * actualScale;
+
+      const left = dirX === -1 ? anchorX - width : dirX === 1 ? anchorX : anchorX - width / 2;
+      const top = dirY === -1 ? anchorY - height : dirY === 1 ? anchorY : anchorY - height / 2;
+
+      // The pill padding grows with the font, so the text origin scales with it
+      obj.fontSize = fontSize;
+      obj.x = left + (geometry.x! - box.x) * actualScale;
+      obj.y = top + (geometry.y! - box.y) * actualScale;
+    } else {
+      // Strokes, shapes and images are rescaled in place so line widths are kept
+      const mapX = (x: number) => anchorX + (x - anchorX) * scaleX;
+      const mapY = (y: number) => anchorY + (y - anchorY) * scaleY;
+
+      if (obj.type === 'brush' && geometry.points) {
+        obj.points = geometry.points.map(p => ({ ...p, x: mapX(p.x), y: mapY(p.y) }));
+      } else if (obj.type === 'shape') {
+        obj.startX = mapX(geometry.startX!);
+        obj.startY = mapY(geometry.startY!);
+        obj.endX = mapX(geometry.endX!);
+        obj.endY = mapY(geometry.endY!);
+      } else if (obj.type === 'image' || obj.type === 'redaction') {
+        // Dragging a handle past the opposite edge doesn't mirror the picture
+        const left = mapX(geometry.x!);
+        const right = mapX(geometry.x! + geometry.width!);
+        const top = mapY(geometry.y!);
+        const bottom = mapY(geometry.y! + geometry.height!);
+        obj.x = Math.min(left, right);
+        obj.y = Math.min(top, bottom);
+        obj.width = Math.abs(right - left);
+        obj.height = Math.abs(bottom - top);
+      }
+    }
+
+    this.keepAnchor(obj, start, anchorX, anchorY);
+    this.updateObjectBounds(obj);
+  }
+
+  // Moves the edges of an image's visible part over the picture, which stays where it is
+  cropObject(obj: DrawObject, start: TransformStart, handle: TransformHandle, mouseX: number, mouseY: number) {
+    if (handle === 'rotate' || obj.type !== 'image') return;
+
+    const geometry = start.geometry;
+    const full = this.getFullImageRect({ ...obj, ...geometry });
+    if (!full) return;
+
+    const mouse = this.rotatePoint(mouseX, mouseY, start.center.x, start.center.y, -start.rotation);
+    const minSize = 10 / this.viewScale;
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+    let left = geometry.x!;
+    let top = geometry.y!;
+    let right = left + geometry.width!;
+    let bottom = top + geometry.height!;
+    if (handle.includes('w')) left = clamp(mouse.x, full.x, right - minSize);
+    if (handle.includes('e')) right = clamp(mouse.x, left + minSize, full.x + full.width);
+    if (handle.includes('n')) top = clamp(mouse.y, full.y, bottom - minSize);
+    if (handle.includes('s')) bottom = clamp(mouse.y, top + minSize, full.y + full.height);
+
+    // Picture pixels per drawing unit
+    const image = this.getImage(obj.src!);
+    const scaleX = image.naturalWidth / full.width;
+    const scaleY = image.naturalHeight / full.height;
+
+    obj.x = left;
+    obj.y = top;
+    obj.width = right - left;
+    obj.height = bottom - top;
+    obj.crop = {
+      x: (left - full.x) * scaleX,
+      y: (top - full.y) * scaleY,
+      width: obj.width * scaleX,
+      height: obj.height * scaleY
+    };
+
+    // The corner opposite the handle doesn't move
+    const anchorX = handle.includes('w') ? geometry.x! + geometry.width! : geometry.x!;
+    const anchorY = handle.includes('n') ? geometry.y! + geometry.height! : geometry.y!;
+    this.keepAnchor(obj, start, anchorX, anchorY);
+    this.updateObjectBounds(obj);
+  }
+
+  // Rotation happens around the center, which moved - shift so the anchor stays put on screen
+  private keepAnchor(obj: DrawObject, start: TransformStart, anchorX: number, anchorY: number) {
+    if (!start.rotation) return;
+
+    const anchorBefore = this.rotatePoint(anchorX, anchorY, start.center.x, start.center.y, start.rotation);
+    const center = this.getObjectCenter(obj);
+    const anchorAfter = this.rotatePoint(anchorX, anchorY, center.x, center.y, start.rotation);
+    this.moveObject(obj, anchorBefore.x - anchorAfter.x, anchorBefore.y - anchorAfter.y);
+  }
+
+  // Where the whole picture of an image object lies in its unrotated frame, or null before it has loaded
+  private getFullImageRect(obj: DrawObject): Rect | null {
+    if (obj.type !== 'image' || !obj.src) return null;
+
+    const image = this.getImage(obj.src);
+    if (!image.complete || image.naturalWidth === 0) return null;
+
+    const crop = obj.crop || { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight };
+    const scaleX = obj.width! / crop.width;
+    const scaleY = obj.height! / crop.height;
+    return {
+      x: obj.x! - crop.x * scaleX,
+      y: obj.y! - crop.y * scaleY,
+      width: image.naturalWidth * scaleX,
+      height: image.naturalHeight * scaleY
+    };
+  }
+
+  // Eraser
+
+  // The object list after erasing along a segment, or null when nothing was hit.
+  // The eraser is a capsule around the segment the pointer moved along.
+  eraseObjects(objects: DrawObject[], x1: number, y1: number, x2: number, y2: number, radius: number, partial: boolean): DrawObject[] | null {
+    const remaining: DrawObject[] = [];
+    let changed = false;
+
+    for (const obj of objects) {
+      if (!this.isObjectHitByEraser(obj, x1, y1, x2, y2, radius)) {
+        remaining.push(obj);
+        continue;
+      }
+
+      changed = true;
+
+      // Partial mode splits brush strokes; everything else is always removed whole
+      if (partial && obj.type === 'brush' && obj.points) {
+        remaining.push(...this.splitStroke(obj, x1, y1, x2, y2, radius));
+      }
+    }
+
+    return changed ? remaining : null;
+  }
+
+  private isObjectHitByEraser(obj: DrawObject, x1: number, y1: number, x2: number, y2: number, radius: number): boolean {
+    // Cheap rejection using the bounding box first
+    if (obj.bounds) {
+      const minX = Math.min(x1, x2) - radius;
+      const minY = Math.min(y1, y2) - radius;
+      const maxX = Math.max(x1, x2) + radius;
+      const maxY = Math.max(y1, y2) + radius;
+      if (
+        maxX < obj.bounds.x ||
+        minX > obj.bounds.x + obj.bounds.width ||
+        maxY < obj.bounds.y ||
+        minY > obj.bounds.y + obj.bounds.height
+      ) {
+        return false;
+      }
+    }
+
+    // Rotated objects are tested in their own unrotated frame
+    if (obj.rotation) {
+      const start = this.toLocalPoint(obj, x1, y1);
+      const end = this.toLocalPoint(obj, x2, y2);
+      x1 = start.x;
+      y1 = start.y;
+      x2 = end.x;
+      y2 = end.y;
+    }
+
+    if (obj.type === 'text' || obj.type === 'image' || obj.type === 'redaction') {
+      // Text, images and redactions are treated as solid blocks
+      const b = this.getLocalBounds(obj);
+      if (this.isPointInRect(x1, y1, b) || this.isPointInRect(x2, y2, b)) {
+        return true;
+      }
+      const outline = [
+        { x: b.x, y: b.y },
+        { x: b.x + b.width, y: b.y },
+        { x: b.x + b.width, y: b.y + b.height },
+        { x: b.x, y: b.y + b.height },
+        { x: b.x, y: b.y }
+      ];
+      return this.polylineDistance(outline, x1, y1, x2, y2) <= radius;
+    }
+
+    const outline = obj.type === 'brush' ? obj.points : this.getShapeOutline(obj);
+    if (!outline || outline.length === 0) return false;
+
+    return this.polylineDistance(outline, x1, y1, x2, y2) <= radius + this.getLineWidth(obj) / 2;
+  }
+
+  private splitStroke(obj: DrawObject, x1: number, y1: number, x2: number, y2: number, radius: number): DrawObject[] {
+    const reach = radius + this.getLineWidth(obj) / 2;
+
+    // Fill in long segments so fast strokes are cut where the eraser crosses them
+    let points = this.densifyPoints(obj.points!, Math.max(1, reach / 2));
+
+    // The pieces get new centers, so bake any rotation into their points
+    if (obj.rotation) {
+      const center = this.getObjectCenter(obj);
+      points = points.map(p => ({ ...p, ...this.rotatePoint(p.x, p.y, center.x, center.y, obj.rotation!) }));
+    }
+
+    const pieces: StrokePoint[][] = [];
+    let current: StrokePoint[] = [];
+
+    for (const point of points) {
+      if (this.distanceToSegment(point.x, point.y, x1, y1, x2, y2) <= reach) {
+        if (current.length > 0) {
+          pieces.push(current);
+          current = [];
+        }
+      } else {
+        current.push(point);
+      }
+    }
+    if (current.length > 0) {
+      pieces.push(current);
+    }
+
+    // Pieces keep the stroke's style, group and fading ink time, but are new objects
+    // with their own geometry
+    const { id, points: _points, rotation, bounds, ...metadata } = obj;
+
+    // Drop single leftover points so erasing doesn't leave stray dots behind
+    return pieces
+      .filter(piece => piece.length > 1)
+      .map(piece => ({
+        ...metadata,
+        points: piece,
+        bounds: this.calculateStrokeBounds(piece, this.getLineWidth(obj))
+      }));
+  }
+
+  private densifyPoints(points: StrokePoint[], spacing: number): StrokePoint[] {
+    if (points.length < 2) {
+      return points.map(p => ({ ...p }));
+    }
+
+    const result: StrokePoint[] = [{ ...points[0] }];
+    for (let i = 1; i < points.length; i++) {
+      const prev = points[i - 1];
+      const next = points[i];
+      const steps = Math.ceil(Math.hypot(next.x - prev.x, next.y - prev.y) / spacing);
+      for (let step = 1; step <= steps; step++) {
+        const t = step / steps;
+        const point: StrokePoint = {
+          x: prev.x + (next.x - prev.x) * t,
+          y: prev.y + (next.y - prev.y) * t
+        };
+        if (prev.pressure !== undefined && next.pressure !== undefined) {
+          point.pressure = prev.pressure + (next.pressure - prev.pressure) * t;
+        }
+        result.push(point);
+      }
+    }
+    return result;
+  }
+
+  private getShapeOutline(obj: DrawObject): Array<{ x: number; y: number }> {
+    if (obj.startX === undefined || obj.startY === undefined || obj.endX === undefined || obj.endY === undefined) {
+      return [];
+    }
+
+    const x1 = obj.startX;
+    const y1 = obj.startY;
+    const x2 = obj.endX;
+    const y2 = obj.endY;
+
+    switch (obj.tool) {
+      case 'line':
+      case 'arrow':
+        return [{ x: x1, y: y1 }, { x: x2, y: y2 }];
+      case 'rectangle':
+      case 'roundRect':
+        return [
+          { x: x1, y: y1 },
+          { x: x2, y: y1 },
+          { x: x2, y: y2 },
+          { x: x1, y: y2 },
+          { x: x1, y: y1 }
+        ];
+      case 'circle': {
+        const centerX = (x1 + x2) / 2;
+        const centerY = (y1 + y2) / 2;
+        const radiusX = Math.abs(x2 - x1) / 2;
+        const radiusY = Math.abs(y2 - y1) / 2;
+        const outline: Array<{ x: number; y: number }> = [];
+        for (let i = 0; i <= 48; i++) {
+          const angle = (i / 48) * Math.PI * 2;
+          outline.push({ x: centerX + radiusX * Math.cos(angle), y: centerY + radiusY * Math.sin(angle) });
+        }
+        return outline;
+      }
+      case 'triangle':
+        return [
+          { x: (x1 + x2) / 2, y: y1 },
+          { x: x2, y: y2 },
+          { x: x1, y: y2 },
+          { x: (x1 + x2) / 2, y: y1 }
+        ];
+      case 'star': {
+        const centerX = (x1 + x2) / 2;
+        const centerY = (y1 + y2) / 2;
+        const radius = Math.min(Math.abs(x2 - x1), Math.abs(y2 - y1)) / 2;
+        const outline: Array<{ x: number; y: number }> = [];
+        for (let i = 0; i <= 10; i++) {
+          const angle = (i * Math.PI) / 5 - Math.PI / 2;
+          const r = i % 2 === 0 ? radius : radius * 0.4;
+          outline.push({ x: centerX + r * Math.cos(angle), y: centerY + r * Math.sin(angle) });
+        }
+        return outline;
+      }
+      default:
+        return [];
+    }
+  }
+
+  private polylineDistance(points: Array<{ x: number; y: number }>, x1: number, y1: number, x2: number, y2: number): number {
+    if (points.length === 1) {
+      return this.distanceToSegment(points[0].x, points[0].y, x1, y1, x2, y2);
+    }
+
+    let min = Infinity;
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      min = Math.min(min, this.segmentDistance(a.x, a.y, b.x, b.y, x1, y1, x2, y2));
+      if (min === 0) break;
+    }
+    return min;
+  }
+
+  private segmentDistance(ax: number, ay: number, bx: number, by: number, cx: number, cy: number, dx: number, dy: number): number {
+    // Segments that cross are at distance zero
+    const d1 = (dx - cx) * (ay - cy) - (dy - cy) * (ax - cx);
+    const d2 = (dx - cx) * (by - cy) - (dy - cy) * (bx - cx);
+    const d3 = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+    const d4 = (bx - ax) * (dy - ay) - (by - ay) * (dx - ax);
+    if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+      return 0;
+    }
+
+    return Math.min(
+      this.distanceToSegment(ax, ay, cx, cy, dx, dy),
+      this.distanceToSegment(bx, by, cx, cy, dx, dy),
+      this.distanceToSegment(cx, cy, ax, ay, bx, by),
+      this.distanceToSegment(dx, dy, ax, ay, bx, by)
+    );
+  }
+
+  private distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+
+    if (lengthSquared === 0) {
+      return Math.hypot(px - x1, py - y1);
+    }
+
+    const t = Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSquared));
+    return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+  }
+
+  private isPointInRect(x: number, y: number, rect: Rect): boolean {
+    return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+  }
+
+  // Stroke smoothing
+
+  // Where the next brush point goes: part of the way from the previous point to the pointer,
+  // which evens out hand jitter at the cost of the stroke trailing the pointer slightly
+  smoothPoint(previous: StrokePoint, pointer: StrokePoint, smoothing: StrokeSmoothing): StrokePoint {
+    const follow = 1 - SMOOTHING_AMOUNTS[smoothing];
+    return {
+      ...pointer,
+      x: previous.x + (pointer.x - previous.x) * follow,
+      y: previous.y + (pointer.y - previous.y) * follow
+    };
+  }
+
+  // Shape recognition
+
+  // The shape a freehand stroke was meant to be - a line, arrow, rectangle, ellipse or triangle -
+  // in the stroke's color and size, or null when it doesn't look like any of them
+  recognizeShape(stroke: DrawObject): DrawObject | null {
+    const points = stroke.points;
+    if (!points || points.length < 5) return null;
+
+    const box = this.calculateStrokeBounds(points, 0);
+    if (Math.max(box.width, box.height) < 30) return null;
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+
+    const shape = (tool: ShapeTool, x1: number, y1: number, x2: number, y2: number): DrawObject => ({
+      type: 'shape',
+      tool,
+      color: stroke.color,
+      size: stroke.size,
+      startX: x1,
+      startY: y1,
+      endX: x2,
+      endY: y2,
+      bounds: this.calculateShapeBounds(x1, y1, x2, y2)
+    });
+
+    // Open strokes: a straight shaft with a short scribble at its far end, or a straight line
+    if (Math.hypot(last.x - first.x, last.y - first.y) > length * 0.2) {
+      let tipIndex = 0;
+      let tipDistance = 0;
+      points.forEach((p, index) => {
+        const distance = Math.hypot(p.x - first.x, p.y - first.y);
+        if (distance > tipDistance) {
+          tipIndex = index;
+          tipDistance = distance;
+        }
+      });
+
+      const shaft = points.slice(0, tipIndex + 1);
+      const head = points.slice(tipIndex);
+      let headLength = 0;
+      for (let i = 1; i < head.length; i++) {
+        headLength += Math.hypot(head[i].x - head[i - 1].x, head[i].y - head[i - 1].y);
+      }
+      const tip = points[tipIndex];
+      let headReach = 0;
+      for (const p of head) {
+        headReach = Math.max(headReach, Math.hypot(p.x - tip.x, p.y - tip.y));
+      }
+
+      if (shaft.length >= 3 && this.isStraight(shaft) && headLength > tipDistance * 0.1 && headLength < tipDistance * 0.8 && headReach < tipDistance * 0.5) {
+        return shape('arrow', first.x, first.y, tip.x, tip.y);
+      }
+      if (this.isStraight(points)) {
+        return shape('line', first.x, first.y, last.x, last.y);
+      }
+      return null;
+    }
+
+    // Closed strokes are told apart by how much of their bounding box they fill -
+    // about half for a triangle, π/4 for an ellipse, nearly all of it for a rectangle
+    const hull = this.getConvexHull(points);
+    const fill = this.getPolygonArea(hull) / Math.max(1, box.width * box.height);
+    const scale = Math.max(1, Math.min(box.width, box.height) / 2);
+
+    if (fill < 0.65) {
+      const corners = this.getLargestTriangle(hull);
+      if (!corners) return null;
+      const error = this.getMeanDistance(points, corners.concat(corners[0])) / scale;
+      if (error > 0.2) return null;
+
+      // Point the apex the way the drawn one points, up unless it is at the bottom
+      const bottom = box.y + box.height;
+      const apexDown = corners.filter(p => bottom - p.y < box.height * 0.25).length === 1;
+      return apexDown
+        ? shape('triangle', box.x, bottom, box.x + box.width, box.y)
+        : shape('triangle', box.x, box.y, box.x + box.width, bottom);
+    }
+
+    const rectangle = [
+      { x: box.x, y: box.y },
+      { x: box.x + box.width, y: box.y },
+      { x: box.x + box.width, y: box.y + box.height },
+      { x: box.x, y: box.y + box.height },
+      { x: box.x, y: box.y }
+    ];
+    const rectangleError = this.getMeanDistance(points, rectangle) / scale;
+
+    // Distance from the ellipse inside the box, relative to its radius in each direction
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+    const radiusX = Math.max(1, box.width / 2);
+    const radiusY = Math.max(1, box.height / 2);
+    const ellipseError = points.reduce((sum, p) => sum + Math.abs(Math.hypot((p.x - centerX) / radiusX, (p.y - centerY) / radiusY) - 1), 0) / points.length;
+
+    if (fill > 0.87 || (fill > 0.8 && rectangleError < ellipseError)) {
+      return rectangleError < 0.2 ? shape('rectangle', box.x, box.y, box.x + box.width, box.y + box.height) : null;
+    }
+    return ellipseError < 0.2 ? shape('circle', box.x, box.y, box.x + box.width, box.y + box.height) : null;
+  }
+
+  // Whether every point is close to the line between the first and the last one
+  private isStraight(points: StrokePoint[]): boolean {
+    const first = points[0];
+    const last = points[points.length - 1];
+    const chord = Math.hypot(last.x - first.x, last.y - first.y);
+    if (chord < 20) return false;
+
+    let sum = 0;
+    let maxDeviation = 0;
+    for (const p of points) {
+      const deviation = this.distanceToSegment(p.x, p.y, first.x, first.y, last.x, last.y);
+      sum += deviation;
+      maxDeviation = Math.max(maxDeviation, deviation);
+    }
+    return maxDeviation < chord * 0.1 && sum / points.length < chord * 0.04;
+  }
+
+  // Average distance from the points to the nearest edge of an outline
+  private getMeanDistance(points: StrokePoint[], outline: Array<{ x: number; y: number }>): number {
+    let sum = 0;
+    for (const p of points) {
+      let nearest = Infinity;
+      for (let i = 1; i < outline.length; i++) {
+        nearest = Math.min(nearest, this.distanceToSegment(p.x, p.y, outline[i - 1].x, outline[i - 1].y, outline[i].x, outline[i].y));
+      }
+      sum += nearest;
+    }
+    return sum / points.length;
+  }
+
+  // Monotone chain, counter-clockwise without repeating the first point
+  private getConvexHull(points: StrokePoint[]): Array<{ x: number; y: number }> {
+    const sorted = points.map(p => ({ x: p.x, y: p.y })).sort((a, b) => a.x - b.x || a.y - b.y);
+    const cross = (o: { x: number; y: number }, a: { x: number; y: number }, b: { x: number; y: number }) =>
+      (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+    const lower: Array<{ x: number; y: number }> = [];
+    for (const p of sorted) {
+      while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+      lower.push(p);
+    }
+    const upper: Array<{ x: number; y: number }> = [];
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      const p = sorted[i];
+      while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+      upper.push(p);
+    }
+    return lower.slice(0, -1).concat(upper.slice(0, -1));
+  }
+
+  private getPolygonArea(polygon: Array<{ x: number; y: number }>): number {
+    let area = 0;
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i];
+      const b = polygon[(i + 1) % polygon.length];
+      area += a.x * b.y - b.x * a.y;
+    }
+    return Math.abs(area) / 2;
+  }
+
+  // The three hull points spanning the largest triangle - the corners of a drawn triangle
+  private getLargestTriangle(hull: Array<{ x: number; y: number }>): Array<{ x: number; y: number }> | null {
+    if (hull.length < 3) return null;
+
+    let best: Array<{ x: number; y: number }> | null = null;
+    let bestArea = 0;
+    for (let i = 0; i < hull.length; i++) {
+      for (let j = i + 1; j < hull.length; j++) {
+        for (let k = j + 1; k < hull.length; k++) {
+          const area = this.getPolygonArea([hull[i], hull[j], hull[k]]);
+          if (area > bestArea) {
+            bestArea = area;
+            best = [hull[i], hull[j], hull[k]];
+          }
+        }
+      }
+    }
+    return best;
+  }
+
+  // Bounds
+
+  calculateStrokeBounds(points: StrokePoint[], size: number): Rect {
+    if (points.length === 0) {
+      return { x: 0, y: 0, width: 0, height: 0 };
+    }
+
+    let minX = points[0].x;
+    let minY = points[0].y;
+    let maxX = points[0].x;
+    let maxY = points[0].y;
+    let maxWidth = 0;
+
+    // One pass without spreading, which overflows the call stack on very long strokes
+    for (const point of points) {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+      maxWidth = Math.max(maxWidth, this.getStrokeWidth(size, point.pressure));
+    }
+
+    // Add padding for stroke width, the widest point's for pen strokes
+    const padding = maxWidth / 2;
+    return {
+      x: minX - padding,
+      y: minY - padding,
+      width: maxX - minX + padding * 2,
+      height: maxY - minY + padding * 2
+    };
+  }
+
+  calculateShapeBounds(startX: number, startY: number, endX: number, endY: number): Rect {
+    const minX = Math.min(startX, endX);
+    const minY = Math.min(startY, endY);
+    const maxX = Math.max(startX, endX);
+    const maxY = Math.max(startY, endY);
+
+    return {
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY
+    };
+  }
+
+  calculateTextBounds(obj: DrawObject): Rect {
+    const layout = this.getTextLayout(obj);
+    const height = layout.lines.length * layout.lineHeight;
+
+    // Room for the background pill
+    const padding = obj.textBackground ? obj.fontSize! * 0.4 : 0;
+
+    return {
+      x: obj.x! - padding,
+      y: obj.y! - padding,
+      width: layout.maxWidth + padding * 2,
+      height: height + padding * 2
+    };
+  }
+
+  // Box around all the objects, or null when none of them has bounds
+  getObjectsBounds(objects: DrawObject[]): Rect | null {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    for (const obj of objects) {
+      const b = obj.bounds;
+      if (!b) continue;
+      minX = Math.min(minX, b.x);
+      minY = Math.min(minY, b.y);
+      maxX = Math.max(maxX, b.x + b.width);
+      maxY = Math.max(maxY, b.y + b.height);
+    }
+
+    if (minX === Infinity) return null;
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+}
@@ -0,0 +1,183 @@
+// Command-based undo/redo shared by the overlay and the whiteboard.
+// Every entry only records what it needs to reverse itself, so there is no
+// fixed step limit - the history is bounded by available memory instead.
+
+interface HistoryCommand {
+  label: string;
+  undo(): void;
+  redo(): void;
+  // Drops references to objects that are gone for good. Returns false when nothing is left to undo.
+  forget?(objects: unknown[]): boolean;
+}
+
+interface ObjectListTarget<T> {
+  getObjects(): T[];
+  setObjects(objects: T[]): void;
+}
+
+class CommandHistory {
+  private undoStack: HistoryCommand[] = [];
+  private redoStack: HistoryCommand[] = [];
+  private onChange: (() => void) | null;
+
+  constructor(onChange?: () => void) {
+    this.onChange = onChange || null;
+  }
+
+  // Record a command whose effect has already been applied
+  push(command: HistoryCommand) {
+    this.undoStack.push(command);
+    this.redoStack = [];
+    this.notify();
+  }
+
+  undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) return false;
+
+    command.undo();
+    this.redoStack.push(command);
+    this.notify();
+    return true;
+  }
+
+  redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) return false;
+
+    command.redo();
+    this.undoStack.push(command);
+    this.notify();
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  reset() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  // Removes objects from every recorded step, so undo and redo can't bring them back
+  forget(objects: unknown[]) {
+    const keep = (command: HistoryCommand) => !command.forget || command.forget(objects);
+    this.undoStack = this.undoStack.filter(keep);
+    this.redoStack = this.redoStack.filter(keep);
+    this.notify();
+  }
+
+  private notify() {
+    if (this.onChange) {
+      this.onChange();
+    }
+  }
+}
+
+// Swaps the whole object list between two versions. Used for add, delete,
+// erase and clear - the lists only hold references, so they are cheap to keep.
+class ObjectListCommand<T> implements HistoryCommand {
+  constructor(
+    public label: string,
+    private target: ObjectListTarget<T>,
+    private before: T[],
+    private after: T[]
+  ) {}
+
+  undo() {
+    this.target.setObjects(this.before.slice());
+  }
+
+  redo() {
+    this.target.setObjects(this.after.slice());
+  }
+
+  forget(objects: unknown[]): boolean {
+    this.before = this.before.filter(obj => !objects.includes(obj));
+    this.after = this.after.filter(obj => !objects.includes(obj));
+    return this.before.length !== this.after.length || this.before.some((obj, i) => obj !== this.after[i]);
+  }
+}
+
+// Translates a set of objects by a fixed offset
+class MoveObjectsCommand<T> implements HistoryCommand {
+  label = 'Move';
+
+  constructor(
+    private objects: T[],
+    private deltaX: number,
+    private deltaY: number,
+    private move: (obj: T, deltaX: number, deltaY: number) => void
+  ) {}
+
+  undo() {
+    for (const obj of this.objects) {
+      this.move(obj, -this.deltaX, -this.deltaY);
+    }
+  }
+
+  redo() {
+    for (const obj of this.objects) {
+      this.move(obj, this.deltaX, this.deltaY);
+    }
+  }
+
+  forget(objects: unknown[]): boolean {
+    this.objects = this.objects.filter(obj => !objects.includes(obj));
+    return this.objects.length > 0;
+  }
+}
+
+// Swaps a set of properties (style, geometry, rotation, ...) on a single object.
+// Values are cloned on every apply so later in-place edits can't alter the history.
+class UpdateObjectCommand<T> implements HistoryCommand {
+  constructor(
+    public label: string,
+    private obj: T,
+    private before: Partial<T>,
+    private after: Partial<T>,
+    private onApply?: (obj: T) => void
+  ) {}
+
+  undo() {
+    Object.assign(this.obj, structuredClone(this.before));
+    if (this.onApply) this.onApply(this.obj);
+  }
+
+  redo() {
+    Object.assign(this.obj, structuredClone(this.after));
+    if (this.onApply) this.onApply(this.obj);
+  }
+
+  forget(objects: unknown[]): boolean {
+    return !objects.includes(this.obj);
+  }
+}
+
+// Several commands that undo and redo as a single step
+class CompositeCommand implements HistoryCommand {
+  constructor(public label: string, private commands: HistoryCommand[]) {}
+
+  undo() {
+    for (let i = this.commands.length - 1; i >= 0; i--) {
+      this.commands[i].undo();
+    }
+  }
+
+  redo() {
+    for (const command of this.commands) {
+      command.redo();
+    }
+  }
+
+  forget(objects: unknown[]): boolean {
+    this.commands = this.commands.filter(command => !command.forget || command.forget(objects));
+    return this.commands.length > 0;
+  }
+}
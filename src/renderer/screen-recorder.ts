@@ -0,0 +1,143 @@
+// Records the overlay to WebM. The canvases that make up the overlay are composited
+// into one frame canvas, optionally over a live capture of the desktop underneath,
+// and the frame canvas' stream is fed to a MediaRecorder.
+
+class ScreenRecorder {
+  private frameCanvas: HTMLCanvasElement;
+  private frameCtx: CanvasRenderingContext2D;
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private desktopStream: MediaStream | null = null;
+  private desktopVideo: HTMLVideoElement | null = null;
+  private frameTimer: number | null = null;
+  private frameRate = 30;
+
+  // Elapsed time, not counting pauses
+  private startedAt = 0;
+  private pausedAt = 0;
+  private pausedTotal = 0;
+
+  // getLayers returns the canvases to record from bottom to top, getBackground the fill behind them
+  constructor(private getLayers: () => HTMLCanvasElement[], private getBackground: () => string) {
+    this.frameCanvas = document.createElement('canvas');
+    this.frameCtx = this.frameCanvas.getContext('2d')!;
+  }
+
+  get state(): RecordingState {
+    return this.mediaRecorder ? this.mediaRecorder.state : 'inactive';
+  }
+
+  // Starts recording at the size of the first layer. desktopStream is recorded
+  // underneath the layers and stopped together with the recording.
+  async start(desktopStream: MediaStream | null) {
+    if (this.mediaRecorder) return;
+
+    const base = this.getLayers()[0];
+    this.frameCanvas.width = base.width;
+    this.frameCanvas.height = base.height;
+
+    if (desktopStream) {
+      this.desktopStream = desktopStream;
+      this.desktopVideo = document.createElement('video');
+      this.desktopVideo.muted = true;
+      this.desktopVideo.srcObject = desktopStream;
+      await this.desktopVideo.play();
+    }
+
+    const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+    const chunks: Blob[] = [];
+    this.chunks = chunks;
+    this.mediaRecorder = new MediaRecorder(this.frameCanvas.captureStream(this.frameRate), { mimeType });
+    this.mediaRecorder.addEventListener('dataavailable', (e) => {
+      if (e.data.size > 0) {
+        chunks.push(e.data);
+      }
+    });
+
+    // Timer rather than requestAnimationFrame, which stops while the window is hidden
+    this.drawFrame();
+    this.frameTimer = window.setInterval(() => this.drawFrame(), 1000 / this.frameRate);
+
+    this.startedAt = Date.now();
+    this.pausedTotal = 0;
+    this.mediaRecorder.start(1000);
+  }
+
+  pause() {
+    if (this.mediaRecorder?.state !== 'recording') return;
+
+    this.mediaRecorder.pause();
+    this.pausedAt = Date.now();
+  }
+
+  resume() {
+    if (this.mediaRecorder?.state !== 'paused') return;
+
+    this.mediaRecorder.resume();
+    this.pausedTotal += Date.now() - this.pausedAt;
+  }
+
+  // Resolves with the finished WebM, or null when nothing was being recorded
+  stop(): Promise<Blob | null> {
+    const recorder = this.mediaRecorder;
+    if (!recorder) return Promise.resolve(null);
+
+    // The last chunk arrives just before 'stop'
+    const chunks = this.chunks;
+    return new Promise(resolve => {
+      recorder.addEventListener('stop', () => {
+        resolve(new Blob(chunks, { type: recorder.mimeType }));
+      }, { once: true });
+
+      recorder.stop();
+      this.cleanup();
+    });
+  }
+
+  getElapsed(): number {
+    if (!this.mediaRecorder) return 0;
+
+    const pausedNow = this.mediaRecorder.state === 'paused' ? Date.now() - this.pausedAt : 0;
+    return Date.now() - this.startedAt - this.pausedTotal - pausedNow;
+  }
+
+  private drawFrame() {
+    const { width, height } = this.frameCanvas;
+    const background = this.getBackground();
+
+    this.frameCtx.clearRect(0, 0, width, height);
+
+    if (this.desktopVideo && this.desktopVideo.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      this.frameCtx.drawImage(this.desktopVideo, 0, 0, width, height);
+    }
+
+    if (background !== 'transparent' || !this.desktopVideo) {
+      // WebM has no alpha here, so a transparent overlay without the desktop is recorded on white
+      this.frameCtx.fillStyle = background === 'transparent' ? '#ffffff' : background;
+      this.frameCtx.fillRect(0, 0, width, height);
+    }
+
+    for (const layer of this.getLayers()) {
+      if (layer.style.display === 'none') continue;
+      this.frameCtx.drawImage(layer, 0, 0, width, height);
+    }
+  }
+
+  private cleanup() {
+    if (this.frameTimer !== null) {
+      clearInterval(this.frameTimer);
+      this.frameTimer = null;
+    }
+
+    if (this.desktopStream) {
+      this.desktopStream.getTracks().forEach(track => track.stop());
+      this.desktopStream = null;
+    }
+    if (this.desktopVideo) {
+      this.desktopVideo.srcObject = null;
+      this.desktopVideo = null;
+    }
+
+    this.mediaRecorder = null;
+  }
+}
@@ -0,0 +1,649 @@
+// SVG and PDF export shared by the overlay and the whiteboard. DrawObjects are turned
+// into paths and text runs that follow what the DrawingEngine paints on a canvas, then
+// written out as SVG markup or as a PDF with one page per ExportPage.
+
+// Everything an export can be saved as, see src/main/export.ts. Each format is generated
+// only once it has been picked in the save dialog.
+interface ExportData {
+  png: () => string; // Data URL
+  svg?: () => string;
+  pdf?: () => Uint8Array;
+}
+
+type ExportFormat = 'png' | 'svg' | 'pdf';
+
+interface ExportTarget {
+  success: boolean;
+  format?: ExportFormat;
+  canceled?: boolean;
+  error?: string;
+}
+
+interface ExportResult {
+  success: boolean;
+  filePath?: string;
+  canceled?: boolean;
+  error?: string;
+}
+
+// The part of the preload API that saves exports, in both windows
+interface ExportAPI {
+  chooseExportTarget: (formats: ExportFormat[]) => Promise<ExportTarget>;
+  writeExport: (data: string | Uint8Array) => Promise<ExportResult>;
+}
+
+// Asks where to save, then generates the picked format and writes it
+async function saveExport(api: ExportAPI, data: ExportData): Promise<ExportResult> {
+  const formats: ExportFormat[] = ['png'];
+  if (data.svg) {
+    formats.push('svg');
+  }
+  if (data.pdf) {
+    formats.push('pdf');
+  }
+
+  const target = await api.chooseExportTarget(formats);
+  if (!target.success) {
+    return target;
+  }
+
+  const output = target.format === 'svg' ? data.svg!() : target.format === 'pdf' ? data.pdf!() : data.png();
+  return api.writeExport(output);
+}
+
+// The part of a drawing that goes on one page, in drawing coordinates
+interface ExportPage {
+  area: Rect;
+  background: string | null; // CSS color, null for a transparent page
+  objects: DrawObject[];
+}
+
+type PathCommand =
+  ['M', number, number] |
+  ['L', number, number] |
+  ['C', number, number, number, number, number, number] |
+  ['Z'];
+
+interface VectorPath {
+  kind: 'path';
+  commands: PathCommand[];
+  stroke?: { color: string; width: number; flatCaps?: boolean };
+  fill?: string;
+}
+
+// One line of text, positioned by the top of its em box like textBaseline 'top'
+interface VectorText {
+  kind: 'text';
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  fontFamily: string;
+  bold: boolean;
+  italic: boolean;
+  color: string;
+}
+
+// The shown part of a picture, drawn into rect
+interface VectorImage {
+  kind: 'image';
+  image: HTMLImageElement;
+  crop: Rect; // In image pixels
+  rect: Rect;
+}
+
+type VectorItem = VectorPath | VectorText | VectorImage;
+
+// An image XObject: JPEG data plus the alpha channel for pictures with transparency, both hex encoded
+interface PdfImage {
+  width: number;
+  height: number;
+  jpeg: string;
+  alpha: string | null;
+}
+
+// Bezier control point distance for a quarter circle of radius 1
+const CIRCLE_KAPPA = 0.5522847498;
+
+class VectorExporter {
+  private colorCtx: CanvasRenderingContext2D;
+  private pdfScale = 0.75; // CSS pixels are 1/96 in, PDF points 1/72 in
+
+  // The engine measures text, so exports use the same line widths as the canvas
+  constructor(private engine: DrawingEngine) {
+    const colorCanvas = document.createElement('canvas');
+    colorCanvas.width = colorCanvas.height = 1;
+    this.colorCtx = colorCanvas.getContext('2d')!;
+  }
+
+  // SVG
+
+  toSvg(page: ExportPage): string {
+    const { x, y, width, height } = page.area;
+    const parts = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.formatNumber(width)}" height="${this.formatNumber(height)}" viewBox="${[x, y, width, height].map(n => this.formatNumber(n)).join(' ')}">`
+    ];
+
+    if (page.background) {
+      parts.push(`<rect x="${this.formatNumber(x)}" y="${this.formatNumber(y)}" width="${this.formatNumber(width)}" height="${this.formatNumber(height)}" ${this.getSvgPaint('fill', page.background)}/>`);
+    }
+
+    for (const obj of page.objects) {
+      const items = this.getItems(obj);
+      if (items.length === 0) continue;
+
+      if (obj.rotation) {
+        const center = this.engine.getObjectCenter(obj);
+        const degrees = obj.rotation * 180 / Math.PI;
+        parts.push(`<g transform="rotate(${this.formatNumber(degrees)} ${this.formatNumber(center.x)} ${this.formatNumber(center.y)})">`);
+      } else {
+        parts.push('<g>');
+      }
+      for (const item of items) {
+        if (item.kind === 'path') {
+          parts.push(this.getSvgPath(item));
+        } else if (item.kind === 'text') {
+          parts.push(this.getSvgText(item));
+        } else {
+          parts.push(this.getSvgImage(item));
+        }
+      }
+      parts.push('</g>');
+    }
+
+    parts.push('</svg>');
+    return parts.join('\n') + '\n';
+  }
+
+  private getSvgPath(path: VectorPath): string {
+    const d = path.commands.map(command => command[0] + (command.slice(1) as number[]).map(n => this.formatNumber(n)).join(' ')).join(' ');
+    const paint = path.stroke
+      ? `fill="none" ${this.getSvgPaint('stroke', path.stroke.color)} stroke-width="${this.formatNumber(path.stroke.width)}" stroke-linecap="${path.stroke.flatCaps ? 'butt' : 'round'}" stroke-linejoin="round"`
+      : this.getSvgPaint('fill', path.fill!);
+    return `<path d="${d}" ${paint}/>`;
+  }
+
+  private getSvgText(text: VectorText): string {
+    const style = [
+      `font-family="${this.escapeXml(text.fontFamily)}"`,
+      `font-size="${this.formatNumber(text.fontSize)}"`,
+      text.bold ? 'font-weight="bold"' : '',
+      text.italic ? 'font-style="italic"' : '',
+      this.getSvgPaint('fill', text.color)
+    ].filter(Boolean).join(' ');
+    return `<text x="${this.formatNumber(text.x)}" y="${this.formatNumber(text.y)}" ${style} dominant-baseline="text-before-edge" xml:space="preserve">${this.escapeXml(text.text)}</text>`;
+  }
+
+  // A nested viewport shows just the cropped part of the picture
+  private getSvgImage(item: VectorImage): string {
+    const { x, y, width, height } = item.rect;
+    const crop = item.crop;
+    const viewBox = [crop.x, crop.y, crop.width, crop.height].map(n => this.formatNumber(n)).join(' ');
+    return `<svg x="${this.formatNumber(x)}" y="${this.formatNumber(y)}" width="${this.formatNumber(width)}" height="${this.formatNumber(height)}" viewBox="${viewBox}" preserveAspectRatio="none">` +
+      `<image width="${item.image.naturalWidth}" height="${item.image.naturalHeight}" href="${this.escapeXml(item.image.src)}"/></svg>`;
+  }
+
+  // rgb() with a separate opacity, which more SVG viewers understand than rgba()
+  private getSvgPaint(attribute: 'fill' | 'stroke', color: string): string {
+    const { r, g, b, a } = this.parseColor(color);
+    const paint = `${attribute}="rgb(${r},${g},${b})"`;
+    return a < 1 ? `${paint} ${attribute}-opacity="${this.formatNumber(a)}"` : paint;
+  }
+
+  private escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  // PDF
+
+  // Text uses the standard Helvetica fonts, which every PDF reader has, so it stays
+  // selectable without embedding fonts. Characters outside Latin-1 become '?'.
+  toPdf(pages: ExportPage[]): Uint8Array {
+    const fontNames = ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique'];
+    // Filled in while writing pages: opacity -> graphics state name, and images in order of their names
+    const alphaStates = new Map<number, string>();
+    const images: PdfImage[] = [];
+    const contents = pages.map(page => this.getPdfContent(page, alphaStates, images));
+
+    // Objects: 1 catalog, 2 page tree, then fonts, graphics states, images (each followed by its
+    // alpha channel if it has one), and a page and content stream per page
+    const fontStart = 3;
+    const stateStart = fontStart + fontNames.length;
+    const imageStart = stateStart + alphaStates.size;
+    const imageNumbers: number[] = [];
+    let pageStart = imageStart;
+    for (const image of images) {
+      imageNumbers.push(pageStart);
+      pageStart += image.alpha ? 2 : 1;
+    }
+
+    const fonts = fontNames.map((name, index) => `/F${index + 1} ${fontStart + index} 0 R`).join(' ');
+    const states = Array.from(alphaStates.values()).map((name, index) => `/${name} ${stateStart + index} 0 R`).join(' ');
+    const xObjects = imageNumbers.map((number, index) => `/Im${index + 1} ${number} 0 R`).join(' ');
+    const resources = `<< /Font << ${fonts} >> /ExtGState << ${states} >> /XObject << ${xObjects} >> >>`;
+
+    const bodies: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pages.map((page, index) => `${pageStart + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+      ...fontNames.map(name => `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`),
+      ...Array.from(alphaStates.keys()).map(alpha => `<< /Type /ExtGState /CA ${this.formatNumber(alpha)} /ca ${this.formatNumber(alpha)} >>`)
+    ];
+
+    images.forEach((image, index) => {
+      const size = `/Width ${image.width} /Height ${image.height} /BitsPerComponent 8`;
+      const mask = image.alpha ? ` /SMask ${imageNumbers[index] + 1} 0 R` : '';
+      bodies.push(`<< /Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceRGB /Filter [/ASCIIHexDecode /DCTDecode]${mask} /Length ${image.jpeg.length + 1} >>\nstream\n${image.jpeg}>\nendstream`);
+      if (image.alpha) {
+        bodies.push(`<< /Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray /Filter /ASCIIHexDecode /Length ${image.alpha.length + 1} >>\nstream\n${image.alpha}>\nendstream`);
+      }
+    });
+
+    pages.forEach((page, index) => {
+      const width = page.area.width * this.pdfScale;
+      const height = page.area.height * this.pdfScale;
+      bodies.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.formatNumber(width)} ${this.formatNumber(height)}] /Resources ${resources} /Contents ${pageStart + index * 2 + 1} 0 R >>`);
+      bodies.push(`<< /Length ${contents[index].length} >>\nstream\n${contents[index]}\nendstream`);
+    });
+
+    // Everything written is ASCII, so string offsets are byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    bodies.forEach((body, index) => {
+      offsets.push(pdf.length);
+      pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${bodies.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${bodies.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(pdf);
+  }
+
+  private getPdfContent(page: ExportPage, alphaStates: Map<number, string>, images: PdfImage[]): string {
+    const { x, y, width, height } = page.area;
+    const s = this.pdfScale;
+    const ops: string[] = [];
+
+    // Flip to the canvas' y-down coordinates, so everything below uses drawing coordinates
+    ops.push('q', `${this.formatNumber(s)} 0 0 ${this.formatNumber(-s)} ${this.formatNumber(-x * s)} ${this.formatNumber((y + height) * s)} cm`);
+
+    if (page.background) {
+      ops.push(this.getPdfColor(page.background, 'fill', alphaStates));
+      ops.push(`${this.formatNumber(x)} ${this.formatNumber(y)} ${this.formatNumber(width)} ${this.formatNumber(height)} re f`);
+    }
+
+    for (const obj of page.objects) {
+      const items = this.getItems(obj);
+      if (items.length === 0) continue;
+
+      ops.push('q');
+      if (obj.rotation) {
+        // Same matrix as translate(center), rotate, translate(-center) on the canvas
+        const center = this.engine.getObjectCenter(obj);
+        const cos = Math.cos(obj.rotation);
+        const sin = Math.sin(obj.rotation);
+        const e = center.x - cos * center.x + sin * center.y;
+        const f = center.y - sin * center.x - cos * center.y;
+        ops.push(`${[cos, sin, -sin, cos, e, f].map(n => this.formatNumber(n, 6)).join(' ')} cm`);
+      }
+      for (const item of items) {
+        if (item.kind === 'path') {
+          ops.push(this.getPdfPath(item, alphaStates));
+        } else if (item.kind === 'text') {
+          ops.push(this.getPdfText(item, alphaStates));
+        } else {
+          ops.push(this.getPdfImage(item, images));
+        }
+      }
+      ops.push('Q');
+    }
+
+    ops.push('Q');
+    return ops.join('\n');
+  }
+
+  private getPdfPath(path: VectorPath, alphaStates: Map<number, string>): string {
+    const ops: string[] = ['q'];
+    if (path.stroke) {
+      ops.push(this.getPdfColor(path.stroke.color, 'stroke', alphaStates), `${this.formatNumber(path.stroke.width)} w ${path.stroke.flatCaps ? 0 : 1} J 1 j`);
+    } else {
+      ops.push(this.getPdfColor(path.fill!, 'fill', alphaStates));
+    }
+
+    for (const command of path.commands) {
+      const operands = (command.slice(1) as number[]).map(n => this.formatNumber(n)).join(' ');
+      switch (command[0]) {
+        case 'M': ops.push(`${operands} m`); break;
+        case 'L': ops.push(`${operands} l`); break;
+        case 'C': ops.push(`${operands} c`); break;
+        case 'Z': ops.push('h'); break;
+      }
+    }
+
+    ops.push(path.stroke ? 'S' : 'f', 'Q');
+    return ops.join('\n');
+  }
+
+  private getPdfText(text: VectorText, alphaStates: Map<number, string>): string {
+    const font = 1 + (text.bold ? 1 : 0) + (text.italic ? 2 : 0);
+    // The baseline sits about 0.8 em below the top of the em box for common sans-serif fonts
+    const baseline = text.y + text.fontSize * 0.8;
+
+    return [
+      'q',
+      this.getPdfColor(text.color, 'fill', alphaStates),
+      'BT',
+      `/F${font} ${this.formatNumber(text.fontSize)} Tf`,
+      // Flip glyphs back upright inside the y-down page
+      `1 0 0 -1 ${this.formatNumber(text.x)} ${this.formatNumber(baseline)} Tm`,
+      `${this.getPdfString(text.text)} Tj`,
+      'ET',
+      'Q'
+    ].join('\n');
+  }
+
+  private getPdfImage(item: VectorImage, images: PdfImage[]): string {
+    images.push(this.encodePdfImage(item));
+    const { x, y, width, height } = item.rect;
+
+    // Image space is a unit square with its first row at the top; flip it into the y-down page
+    const matrix = [width, 0, 0, -height, x, y + height].map(n => this.formatNumber(n)).join(' ');
+    return `q\n${matrix} cm\n/Im${images.length} Do\nQ`;
+  }
+
+  // The shown part of the picture at its own resolution. JPEG has no alpha, so transparent
+  // pixels are flattened onto white and the alpha channel is kept as a separate mask.
+  private encodePdfImage(item: VectorImage): PdfImage {
+    const width = Math.max(1, Math.round(item.crop.width));
+    const height = Math.max(1, Math.round(item.crop.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(item.image, item.crop.x, item.crop.y, item.crop.width, item.crop.height, 0, 0, width, height);
+
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    let alpha: string | null = null;
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] < 255) {
+        const bytes: string[] = [];
+        for (let j = 3; j < pixels.length; j += 4) {
+          bytes.push(pixels[j].toString(16).padStart(2, '0'));
+        }
+        alpha = bytes.join('');
+        break;
+      }
+    }
+
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    const jpeg = atob(canvas.toDataURL('image/jpeg', 0.92).split(',')[1]);
+    const bytes: string[] = [];
+    for (let i = 0; i < jpeg.length; i++) {
+      bytes.push(jpeg.charCodeAt(i).toString(16).padStart(2, '0'));
+    }
+
+    return { width, height, jpeg: bytes.join(''), alpha };
+  }
+
+  private getPdfColor(color: string, use: 'fill' | 'stroke', alphaStates: Map<number, string>): string {
+    const { r, g, b, a } = this.parseColor(color);
+    const components = [r, g, b].map(c => this.formatNumber(c / 255, 3)).join(' ');
+    let op = `${components} ${use === 'fill' ? 'rg' : 'RG'}`;
+
+    if (a < 1) {
+      const alpha = Math.round(a * 100) / 100;
+      if (!alphaStates.has(alpha)) {
+        alphaStates.set(alpha, `GS${alphaStates.size + 1}`);
+      }
+      op += ` /${alphaStates.get(alpha)} gs`;
+    }
+    return op;
+  }
+
+  private getPdfString(text: string): string {
+    let result = '(';
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      if (char === '(' || char === ')' || char === '\\') {
+        result += '\\' + char;
+      } else if (code >= 32 && code < 127) {
+        result += char;
+      } else if (code >= 160 && code <= 255) {
+        result += '\\' + code.toString(8).padStart(3, '0');
+      } else {
+        result += '?';
+      }
+    }
+    return result + ')';
+  }
+
+  // Geometry
+
+  // What the engine would draw for the object, before its rotation
+  private getItems(obj: DrawObject): VectorItem[] {
+    if (obj.type === 'brush' && obj.tool === 'marker' && obj.points && obj.points.length > 0) {
+      // Exports have no multiply blending, the ink is plain translucent color
+      const { r, g, b } = this.parseColor(obj.color);
+      const color = `rgba(${r}, ${g}, ${b}, ${obj.opacity ?? DEFAULT_MARKER_OPACITY})`;
+      const width = this.engine.getLineWidth(obj);
+      const [first] = obj.points;
+      if (obj.points.length === 1) {
+        const left = first.x - width / 4;
+        const top = first.y - width / 2;
+        return [{ kind: 'path', commands: [['M', left, top], ['L', left + width / 2, top], ['L', left + width / 2, top + width], ['L', left, top + width], ['Z']], fill: color }];
+      }
+      const commands: PathCommand[] = obj.points.map((point, index): PathCommand => [index === 0 ? 'M' : 'L', point.x, point.y]);
+      return [{ kind: 'path', commands, stroke: { color, width, flatCaps: true } }];
+    }
+
+    if (obj.type === 'brush' && obj.points && obj.points.length > 0) {
+      if (obj.points.length === 1) {
+        const radius = this.engine.getStrokeWidth(obj.size, obj.points[0].pressure) / 2;
+        return [{ kind: 'path', commands: this.getEllipse(obj.points[0].x, obj.points[0].y, radius, radius), fill: obj.color }];
+      }
+      if (this.engine.hasPressure(obj.points)) {
+        // One path per segment, as the engine draws them, since a path has a single width
+        const points = obj.points;
+        return points.slice(1).map((point, index): VectorItem => ({
+          kind: 'path',
+          commands: [['M', points[index].x, points[index].y], ['L', point.x, point.y]],
+          stroke: { color: obj.color, width: this.engine.getStrokeWidth(obj.size, this.engine.getSegmentPressure(points[index], point)) }
+        }));
+      }
+      const commands: PathCommand[] = obj.points.map((point, index): PathCommand => [index === 0 ? 'M' : 'L', point.x, point.y]);
+      return [{ kind: 'path', commands, stroke: { color: obj.color, width: obj.size } }];
+    }
+
+    if (obj.type === 'shape' && obj.startX !== undefined && obj.startY !== undefined && obj.endX !== undefined && obj.endY !== undefined) {
+      const commands = this.getShapeCommands(obj.tool as ShapeTool, obj.startX, obj.startY, obj.endX, obj.endY, obj.size);
+      return [{ kind: 'path', commands, stroke: { color: obj.color, width: obj.size } }];
+    }
+
+    if (obj.type === 'text' && obj.text && obj.x !== undefined && obj.y !== undefined && obj.fontSize) {
+      return this.getTextItems(obj);
+    }
+
+    if (obj.type === 'redaction' && obj.x !== undefined && obj.y !== undefined) {
+      // The desktop isn't part of a vector export, so there is only the area to cover
+      const { x, y } = obj;
+      const right = x + obj.width!;
+      const bottom = y + obj.height!;
+      return [{ kind: 'path', commands: [['M', x, y], ['L', right, y], ['L', right, bottom], ['L', x, bottom], ['Z']], fill: REDACTION_FILL }];
+    }
+
+    if (obj.type === 'image' && obj.src && obj.x !== undefined && obj.y !== undefined) {
+      // Pictures that haven't decoded yet are left out, as on the canvas
+      const image = this.engine.getImage(obj.src);
+      if (!image.complete || image.naturalWidth === 0) return [];
+
+      const crop = obj.crop || { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight };
+      return [{ kind: 'image', image, crop, rect: { x: obj.x, y: obj.y, width: obj.width!, height: obj.height! } }];
+    }
+
+    return [];
+  }
+
+  private getShapeCommands(shape: ShapeTool, x1: number, y1: number, x2: number, y2: number, size: number): PathCommand[] {
+    switch (shape) {
+      case 'line':
+        return [['M', x1, y1], ['L', x2, y2]];
+
+      case 'arrow': {
+        const headLength = 20 + size * 2;
+        const angle = Math.atan2(y2 - y1, x2 - x1);
+        return [
+          ['M', x1, y1], ['L', x2, y2],
+          ['M', x2, y2], ['L', x2 - headLength * Math.cos(angle - Math.PI / 6), y2 - headLength * Math.sin(angle - Math.PI / 6)],
+          ['M', x2, y2], ['L', x2 - headLength * Math.cos(angle + Math.PI / 6), y2 - headLength * Math.sin(angle + Math.PI / 6)]
+        ];
+      }
+
+      case 'rectangle':
+        return [['M', x1, y1], ['L', x2, y1], ['L', x2, y2], ['L', x1, y2], ['Z']];
+
+      case 'circle':
+        return this.getEllipse((x1 + x2) / 2, (y1 + y2) / 2, Math.abs(x2 - x1) / 2, Math.abs(y2 - y1) / 2);
+
+      case 'roundRect': {
+        // The canvas draws the corners as quadratic curves through the corner point
+        const radius = Math.min(Math.abs(x2 - x1), Math.abs(y2 - y1)) * 0.15;
+        return [
+          ['M', x1 + radius, y1], ['L', x2 - radius, y1], this.quadraticToCubic(x2 - radius, y1, x2, y1, x2, y1 + radius),
+          ['L', x2, y2 - radius], this.quadraticToCubic(x2, y2 - radius, x2, y2, x2 - radius, y2),
+          ['L', x1 + radius, y2], this.quadraticToCubic(x1 + radius, y2, x1, y2, x1, y2 - radius),
+          ['L', x1, y1 + radius], this.quadraticToCubic(x1, y1 + radius, x1, y1, x1 + radius, y1),
+          ['Z']
+        ];
+      }
+
+      case 'triangle':
+        return [['M', (x1 + x2) / 2, y1], ['L', x2, y2], ['L', x1, y2], ['Z']];
+
+      case 'star': {
+        const centerX = (x1 + x2) / 2;
+        const centerY = (y1 + y2) / 2;
+        const radius = Math.min(Math.abs(x2 - x1), Math.abs(y2 - y1)) / 2;
+        const commands: PathCommand[] = [];
+        for (let i = 0; i < 10; i++) {
+          const angle = (i * Math.PI) / 5 - Math.PI / 2;
+          const r = i % 2 === 0 ? radius : radius * 0.4;
+          commands.push([i === 0 ? 'M' : 'L', centerX + r * Math.cos(angle), centerY + r * Math.sin(angle)]);
+        }
+        commands.push(['Z']);
+        return commands;
+      }
+    }
+  }
+
+  private getTextItems(obj: DrawObject): VectorItem[] {
+    const items: VectorItem[] = [];
+    const layout = this.engine.getTextLayout(obj);
+    const fontSize = obj.fontSize!;
+
+    if (obj.textBackground) {
+      const bounds = this.engine.calculateTextBounds(obj);
+      const radius = Math.min(bounds.height / 2, fontSize * 0.8);
+      items.push({ kind: 'path', commands: this.getRoundedRect(bounds, radius), fill: this.engine.getTextPillColor(obj.color) });
+    }
+
+    layout.lines.forEach((line, index) => {
+      const lineX = obj.x! + this.engine.getLineOffset(obj.textAlign, layout.maxWidth, layout.widths[index]);
+      const lineY = obj.y! + index * layout.lineHeight;
+
+      if (line.length > 0) {
+        items.push({
+          kind: 'text',
+          text: line,
+          x: lineX,
+          y: lineY,
+          fontSize,
+          fontFamily: obj.fontFamily || DEFAULT_FONT_FAMILY,
+          bold: !!obj.bold,
+          italic: !!obj.italic,
+          color: obj.color
+        });
+      }
+
+      if (obj.underline && line.length > 0) {
+        const thickness = Math.max(1, fontSize / 15);
+        const top = lineY + fontSize * 1.05;
+        const right = lineX + layout.widths[index];
+        items.push({
+          kind: 'path',
+          commands: [['M', lineX, top], ['L', right, top], ['L', right, top + thickness], ['L', lineX, top + thickness], ['Z']],
+          fill: obj.color
+        });
+      }
+    });
+
+    return items;
+  }
+
+  private getEllipse(cx: number, cy: number, rx: number, ry: number): PathCommand[] {
+    const kx = rx * CIRCLE_KAPPA;
+    const ky = ry * CIRCLE_KAPPA;
+    return [
+      ['M', cx + rx, cy],
+      ['C', cx + rx, cy + ky, cx + kx, cy + ry, cx, cy + ry],
+      ['C', cx - kx, cy + ry, cx - rx, cy + ky, cx - rx, cy],
+      ['C', cx - rx, cy - ky, cx - kx, cy - ry, cx, cy - ry],
+      ['C', cx + kx, cy - ry, cx + rx, cy - ky, cx + rx, cy],
+      ['Z']
+    ];
+  }
+
+  private getRoundedRect(rect: Rect, radius: number): PathCommand[] {
+    const { x, y, width, height } = rect;
+    const k = radius * (1 - CIRCLE_KAPPA);
+    return [
+      ['M', x + radius, y],
+      ['L', x + width - radius, y],
+      ['C', x + width - k, y, x + width, y + k, x + width, y + radius],
+      ['L', x + width, y + height - radius],
+      ['C', x + width, y + height - k, x + width - k, y + height, x + width - radius, y + height],
+      ['L', x + radius, y + height],
+      ['C', x + k, y + height, x, y + height - k, x, y + height - radius],
+      ['L', x, y + radius],
+      ['C', x, y + k, x + k, y, x + radius, y],
+      ['Z']
+    ];
+  }
+
+  // Exact cubic equivalent of a quadratic curve from (x0, y0) with control point (cx, cy)
+  private quadraticToCubic(x0: number, y0: number, cx: number, cy: number, x: number, y: number): PathCommand {
+    return [
+      'C',
+      x0 + (cx - x0) * 2 / 3, y0 + (cy - y0) * 2 / 3,
+      x + (cx - x) * 2 / 3, y + (cy - y) * 2 / 3,
+      x, y
+    ];
+  }
+
+  // Helpers
+
+  // Any CSS color as RGBA, normalised by a canvas context
+  private parseColor(color: string): { r: number; g: number; b: number; a: number } {
+    this.colorCtx.fillStyle = '#000000';
+    this.colorCtx.fillStyle = color;
+    const normalized = String(this.colorCtx.fillStyle);
+
+    if (normalized.startsWith('#')) {
+      return { ...hexToRgb(normalized), a: 1 };
+    }
+
+    const [r, g, b, a] = (normalized.match(/[\d.]+/g) || []).map(Number);
+    return { r: r || 0, g: g || 0, b: b || 0, a: a ?? 1 };
+  }
+
+  // Short decimal without exponent notation, which PDF doesn't allow
+  private formatNumber(n: number, decimals = 2): string {
+    const fixed = n.toFixed(decimals);
+    const trimmed = fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+    return trimmed === '-0' ? '0' : trimmed;
+  }
+}
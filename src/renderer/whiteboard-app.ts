@@ -1,16 +1,61 @@
-type WhiteboardTool = 'brush' | 'eraser' | 'text' | 'select' | 'arrow' | 'rectangle' | 'circle' | 'line' | 'roundRect' | 'star';
+type WhiteboardTool = 'brush' | 'eraser' | 'text' | 'select' | 'arrow' | 'rectangle' | 'circle' | 'line' | 'roundRect' | 'star' | 'triangle';
+
+const WHITEBOARD_TOOLS: WhiteboardTool[] = ['brush', 'eraser', 'text', 'select', 'arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star', 'triangle'];
 
 interface WhiteboardElectronAPI {
-  saveScreenshot: (dataUrl: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+  chooseExportTarget: (formats: ExportFormat[]) => Promise<ExportTarget>;
+  writeExport: (data: string | Uint8Array) => Promise<ExportResult>;
+  openImage: () => Promise<{ success: boolean; dataUrl?: string; canceled?: boolean; error?: string }>;
+  readClipboard: () => Promise<ClipboardContents>;
+  writeClipboard: (data: { text?: string; image?: string }) => void;
+  getSettings: (section: 'whiteboard') => Promise<WhiteboardSettings>;
+  updateSettings: (section: 'whiteboard', values: Partial<WhiteboardSettings>) => void;
+  sendToOverlay: (objects: DrawObject[]) => void;
+  onReceiveObjects: (callback: (objects: DrawObject[]) => void) => void;
+  setMirrorMode: (enabled: boolean) => void;
+  onMirrorState: (callback: (state: MirrorState) => void) => void;
+  openSession: () => Promise<SessionResult>;
+  saveSession: (document: SessionDocument, filePath: string | null) => Promise<SessionResult>;
+  saveSessionAs: (document: SessionDocument) => Promise<SessionResult>;
+}
+
+// What the overlays show, sent by the main process while mirror mode is on. Objects
+// are relative to the top-left of the area the overlays cover.
+interface MirrorState {
+  objects: DrawObject[];
+  area: Rect;
+}
+
+// Mirrors the whiteboard section of the settings stored by the main process
+interface WhiteboardSettings {
+  tool: string;
+  color: string;
+  size: number;
+  fontSize: number;
+  smoothing: StrokeSmoothing;
+  smartShapes: boolean;
+  eraserMode: EraserMode;
+  backgroundColor: string;
+  gridType: 'none' | 'dots' | 'lines';
+  exportScale: ExportScale;
 }
 
-interface WhiteboardHistoryState {
-  imageData: ImageData;
+// One board of the whiteboard. The page on screen keeps its state in WhiteboardApp's
+// fields and is written back here when another page is opened.
+interface WhiteboardPage {
+  id: string;
+  objects: DrawObject[];
+  backgroundColor: string;
+  gridType: 'none' | 'dots' | 'lines';
+  view: { x: number; y: number; zoom: number };
+  history: CommandHistory; // Each page has its own undo history
 }
 
 class WhiteboardApp {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
+  private engine: DrawingEngine;
+  private exporter: VectorExporter;
   private isDrawing = false;
   private lastX = 0;
   private lastY = 0;
@@ -25,63 +70,187 @@ class WhiteboardApp {
   private backgroundColor = '#ffffff';
   private gridType: 'none' | 'dots' | 'lines' = 'none';
 
-  // History for undo/redo
-  private history: WhiteboardHistoryState[] = [];
-  private historyStep = -1;
-  private maxHistorySteps = 50;
-
-  // Shape drawing
-  private tempCanvas: HTMLCanvasElement | null = null;
-  private tempCtx: CanvasRenderingContext2D | null = null;
-  private savedImageData: ImageData | null = null;
+  // Strokes, shapes and text are kept as objects, drawn by the engine shared with the overlay
+  private drawnObjects: DrawObject[] = [];
+  private currentStroke: DrawObject | null = null; // Brush stroke in progress
+  private strokePointer: StrokePoint | null = null; // Where the pointer is, ahead of the smoothed stroke
+  private smoothing: StrokeSmoothing = 'low';
+  private smartShapes = false; // Replace strokes that look like shapes with the shape
+  private eraserMode: EraserMode = 'partial';
+  private eraseStartObjects: DrawObject[] = []; // Object list before the current eraser stroke
+  private hasErasedInStroke = false;
+  private toolBeforePenEraser: WhiteboardTool | null = null; // Tool to go back to when the pen is turned back over
+  private history: CommandHistory;
+  private objectListTarget: ObjectListTarget<DrawObject> = {
+    getObjects: () => this.drawnObjects,
+    setObjects: (objects) => {
+      this.drawnObjects = objects;
+    }
+  };
 
   // Text tool
   private textInput: HTMLTextAreaElement | null = null;
   private isEditingText = false;
+  private editingTextObject: DrawObject | null = null; // Existing text object being re-edited
+  private textInputOrigin = { x: 0, y: 0 }; // Board position of the text being edited
 
   // Select/Move tool
-  private selectedImageData: ImageData | null = null;
-  private selectionRect: { x: number; y: number; width: number; height: number } | null = null;
-  private isDraggingSelection = false;
-  private selectionOffsetX = 0;
-  private selectionOffsetY = 0;
-  private isSelecting = false;
+  private selectedObjects: DrawObject[] = [];
+  private isSelecting = false; // Dragging a rubber-band rectangle
+  private isDraggingObject = false;
+  private dragLastX = 0;
+  private dragLastY = 0;
+  private dragTotalX = 0; // Distance moved during the current drag, for the move command
+  private dragTotalY = 0;
+  private activeHandle: TransformHandle | null = null;
+  private transformStart: TransformStart | null = null;
+  private croppingObject: DrawObject | null = null; // Image whose handles crop rather than scale
+  private pendingRestyle: Array<{ obj: DrawObject; before: Partial<DrawObject> }> = [];
+
+  // Infinite canvas - objects live in board coordinates, the view maps them to the window:
+  // screen = board * zoom + offset
+  private view = { x: 0, y: 0, zoom: 1 };
+  private minZoom = 0.1;
+  private maxZoom = 8;
+  private gridSpacing = 20; // Board units between grid lines at 100%
+  private isSpaceDown = false;
+  private isPanning = false;
+  private panLastX = 0;
+  private panLastY = 0;
+
+  // Two-finger touch gestures pan and zoom the board. The pinch lasts until every finger
+  // is lifted, so the finger left behind doesn't start drawing.
+  private touchPoints = new Map<number, { x: number; y: number }>(); // Screen position by pointer id
+  private pinch: { distance: number; zoom: number; anchor: { x: number; y: number } } | null = null;
+
+  // Pages
+  private pages: WhiteboardPage[] = [];
+  private currentPageIndex = 0;
+  private thumbnailTimer: number | null = null;
+  private thumbnailDelay = 300; // ms, thumbnails catch up once drawing pauses
+  private thumbnailWidth = 96;
+  private draggedPageIndex: number | null = null;
+
+  // Session file the pages were last opened from or saved to
+  private sessionFilePath: string | null = null;
+
+  // Mirror mode shows the overlays' drawing instead of the page, read-only
+  private isMirroring = false;
+  private mirroredObjects: DrawObject[] = [];
+  private mirrorArea: Rect | null = null;
+  private mirrorReturnView = { x: 0, y: 0, zoom: 1 }; // Page view to restore afterwards
 
   // Toolbar hover state
   private isMouseOverToolbar = false;
 
+  // HiDPI - the canvas is backed by device pixels while drawing uses CSS pixels
+  private pixelRatio = 1;
+  private exportScale: ExportScale = 'native';
+
+  // Persisted settings
+  private isLoadingSettings = false;
+  private settingsSaveTimer: number | null = null;
+  private settingsSaveDelay = 300;
+
   constructor() {
     this.canvas = document.getElementById('canvas') as HTMLCanvasElement;
     this.ctx = this.canvas.getContext('2d')!;
+    this.engine = new DrawingEngine(this.ctx);
+    this.exporter = new VectorExporter(this.engine);
+    this.engine.onImageLoad = () => {
+      this.redrawCanvas();
+      this.scheduleThumbnailUpdate();
+    };
+
+    const firstPage = this.createPage();
+    this.pages = [firstPage];
+    this.history = firstPage.history;
 
     this.setupCanvas();
-    this.setupTempCanvas();
     this.setupEventListeners();
+    this.setupPageStrip();
+    this.setupOverlaySync();
+    this.setupImageDrop();
     this.setupToolbarHoverDetection();
     this.setupToolbarToggle();
-    this.saveState(); // Save initial blank state
+    this.loadSettings();
 
     console.log('Whiteboard initialized successfully');
   }
 
+  private async loadSettings() {
+    const electronAPI = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!electronAPI || !electronAPI.getSettings) return;
+
+    let settings: WhiteboardSettings;
+    try {
+      settings = await electronAPI.getSettings('whiteboard');
+    } catch (error) {
+      console.error('Error loading settings:', error);
+      return;
+    }
+
+    this.isLoadingSettings = true;
+
+    this.color = settings.color;
+    this.size = settings.size;
+    this.fontSize = settings.fontSize;
+    (document.getElementById('colorPicker') as HTMLInputElement).value = this.color;
+    (document.getElementById('sizeSlider') as HTMLInputElement).value = String(this.size);
+    (document.getElementById('fontSizeSelect') as HTMLSelectElement).value = String(this.fontSize);
+    this.setSmoothing(settings.smoothing);
+    this.setSmartShapes(settings.smartShapes);
+    this.setEraserMode(settings.eraserMode);
+
+    if (WHITEBOARD_TOOLS.includes(settings.tool as WhiteboardTool)) {
+      this.selectTool(settings.tool as WhiteboardTool);
+    }
+
+    // Nothing is drawn yet, so the background is part of the initial state rather than an undoable change
+    this.applyBackgroundColor(settings.backgroundColor);
+    this.setGridType(settings.gridType);
+    this.setExportScale(settings.exportScale);
+
+    this.isLoadingSettings = false;
+  }
+
+  private saveSettings() {
+    const electronAPI = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!electronAPI || !electronAPI.updateSettings || this.isLoadingSettings) return;
+
+    if (this.settingsSaveTimer !== null) {
+      clearTimeout(this.settingsSaveTimer);
+    }
+
+    this.settingsSaveTimer = window.setTimeout(() => {
+      this.settingsSaveTimer = null;
+      electronAPI.updateSettings('whiteboard', {
+        tool: this.currentTool,
+        color: this.color,
+        size: this.size,
+        fontSize: this.fontSize,
+        smoothing: this.smoothing,
+        smartShapes: this.smartShapes,
+        eraserMode: this.eraserMode,
+        backgroundColor: this.backgroundColor,
+        gridType: this.gridType,
+        exportScale: this.exportScale
+      });
+    }, this.settingsSaveDelay);
+  }
+
   private setupCanvas() {
-    this.canvas.width = window.innerWidth;
-    this.canvas.height = window.innerHeight;
+    this.pixelRatio = resizeCanvasForDisplay(this.canvas, this.ctx, window.innerWidth, window.innerHeight);
     this.ctx.lineCap = 'round';
     this.ctx.lineJoin = 'round';
-    this.fillBackground();
-  }
-
-  private setupTempCanvas() {
-    this.tempCanvas = document.createElement('canvas');
-    this.tempCanvas.width = this.canvas.width;
-    this.tempCanvas.height = this.canvas.height;
-    this.tempCtx = this.tempCanvas.getContext('2d')!;
+    this.redrawCanvas();
   }
 
   private setupToolbarHoverDetection() {
     const toolbar = document.getElementById('toolbar')!;
     const shapesDropdown = document.getElementById('shapesDropdown')!;
+    const brushDropdown = document.getElementById('brushDropdown')!;
+    const eraserDropdown = document.getElementById('eraserDropdown')!;
     const backgroundDropdown = document.getElementById('backgroundDropdown')!;
 
     const setMouseOver = (isOver: boolean) => {
@@ -101,6 +270,10 @@ class WhiteboardApp {
     // Dropdown hovers
     shapesDropdown.addEventListener('mouseenter', () => setMouseOver(true));
     shapesDropdown.addEventListener('mouseleave', () => setMouseOver(false));
+    brushDropdown.addEventListener('mouseenter', () => setMouseOver(true));
+    brushDropdown.addEventListener('mouseleave', () => setMouseOver(false));
+    eraserDropdown.addEventListener('mouseenter', () => setMouseOver(true));
+    eraserDropdown.addEventListener('mouseleave', () => setMouseOver(false));
     backgroundDropdown.addEventListener('mouseenter', () => setMouseOver(true));
     backgroundDropdown.addEventListener('mouseleave', () => setMouseOver(false));
   }
@@ -136,17 +309,16 @@ class WhiteboardApp {
     });
   }
 
-  private fillBackground() {
-    this.ctx.fillStyle = this.backgroundColor;
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
-  }
-
   private setupEventListeners() {
     // Canvas events
-    this.canvas.addEventListener('mousedown', this.handleMouseDown.bind(this));
-    this.canvas.addEventListener('mousemove', this.handleMouseMove.bind(this));
-    this.canvas.addEventListener('mouseup', this.handleMouseUp.bind(this));
-    this.canvas.addEventListener('mouseleave', this.handleMouseUp.bind(this));
+    // Pointer Events cover mice, pens and touch alike
+    this.canvas.addEventListener('pointerdown', this.handlePointerDown.bind(this));
+    this.canvas.addEventListener('pointermove', this.handlePointerMove.bind(this));
+    this.canvas.addEventListener('pointerup', this.handlePointerUp.bind(this));
+    this.canvas.addEventListener('pointerleave', this.handlePointerUp.bind(this));
+    this.canvas.addEventListener('pointercancel', this.handlePointerUp.bind(this));
+    this.canvas.addEventListener('dblclick', this.handleDoubleClick.bind(this));
+    this.canvas.addEventListener('wheel', this.handleWheel.bind(this), { passive: false });
 
     // Tool buttons
     const selectBtn = document.getElementById('selectBtn')!;
@@ -155,19 +327,62 @@ class WhiteboardApp {
     const textBtn = document.getElementById('textBtn')!;
     const shapesBtn = document.getElementById('shapesBtn')!;
     const shapesDropdown = document.getElementById('shapesDropdown')!;
+    const brushDropdown = document.getElementById('brushDropdown')!;
+    const eraserDropdown = document.getElementById('eraserDropdown')!;
 
     selectBtn.addEventListener('click', () => this.selectTool('select'));
-    brushBtn.addEventListener('click', () => this.selectTool('brush'));
-    eraserBtn.addEventListener('click', () => this.selectTool('eraser'));
+    brushBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.selectTool('brush');
+      brushDropdown.classList.toggle('show');
+      shapesDropdown.classList.remove('show');
+      eraserDropdown.classList.remove('show');
+      document.getElementById('backgroundDropdown')?.classList.remove('show');
+    });
+    eraserBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.selectTool('eraser');
+      eraserDropdown.classList.toggle('show');
+      shapesDropdown.classList.remove('show');
+      brushDropdown.classList.remove('show');
+      document.getElementById('backgroundDropdown')?.classList.remove('show');
+    });
     textBtn.addEventListener('click', () => this.selectTool('text'));
 
     // Shapes dropdown
     shapesBtn.addEventListener('click', (e) => {
       e.stopPropagation();
       shapesDropdown.classList.toggle('show');
+      brushDropdown.classList.remove('show');
+      eraserDropdown.classList.remove('show');
       document.getElementById('backgroundDropdown')?.classList.remove('show');
     });
 
+    // Brush smoothing options
+    const smoothingOptions = document.querySelectorAll('.brush-option[data-smoothing]');
+    smoothingOptions.forEach(option => {
+      option.addEventListener('click', (e) => {
+        const smoothing = (e.currentTarget as HTMLElement).dataset.smoothing as StrokeSmoothing;
+        this.setSmoothing(smoothing);
+        brushDropdown.classList.remove('show');
+      });
+    });
+
+    document.getElementById('smartShapesOption')!.addEventListener('click', () => {
+      this.setSmartShapes(!this.smartShapes);
+      brushDropdown.classList.remove('show');
+    });
+
+    // Eraser mode options
+    const eraserOptions = document.querySelectorAll('.eraser-option');
+    eraserOptions.forEach(option => {
+      option.addEventListener('click', (e) => {
+        const mode = (e.currentTarget as HTMLElement).dataset.eraserMode as EraserMode;
+        this.setEraserMode(mode);
+        eraserDropdown.classList.remove('show');
+      });
+    });
+
     // Shape options
     const shapeOptions = document.querySelectorAll('.shape-option');
     shapeOptions.forEach(option => {
@@ -186,6 +401,8 @@ class WhiteboardApp {
       e.stopPropagation();
       backgroundDropdown.classList.toggle('show');
       shapesDropdown.classList.remove('show');
+      brushDropdown.classList.remove('show');
+      eraserDropdown.classList.remove('show');
     });
 
     // Background options
@@ -213,6 +430,12 @@ class WhiteboardApp {
       if (!shapesBtn.contains(target) && !shapesDropdown.contains(target)) {
         shapesDropdown.classList.remove('show');
       }
+      if (!brushBtn.contains(target) && !brushDropdown.contains(target)) {
+        brushDropdown.classList.remove('show');
+      }
+      if (!eraserBtn.contains(target) && !eraserDropdown.contains(target)) {
+        eraserDropdown.classList.remove('show');
+      }
       if (!backgroundBtn.contains(target) && !backgroundDropdown.contains(target)) {
         backgroundDropdown.classList.remove('show');
       }
@@ -227,56 +450,128 @@ class WhiteboardApp {
     const screenshotBtn = document.getElementById('screenshotBtn')!;
     const clearBtn = document.getElementById('clearBtn')!;
 
+    // Controls also restyle the selected objects; the history entry is recorded on 'change'
     colorPicker.addEventListener('input', (e) => {
       this.color = (e.target as HTMLInputElement).value;
+      this.previewRestyle({ color: this.color });
+      this.saveSettings();
     });
+    colorPicker.addEventListener('change', () => this.commitRestyle());
 
     sizeSlider.addEventListener('input', (e) => {
       this.size = parseInt((e.target as HTMLInputElement).value);
+      this.previewRestyle({ size: this.size });
+      this.saveSettings();
     });
+    sizeSlider.addEventListener('change', () => this.commitRestyle());
 
     fontSizeSelect.addEventListener('change', (e) => {
       this.fontSize = parseInt((e.target as HTMLSelectElement).value);
+      this.previewRestyle({ fontSize: this.fontSize });
+      this.commitRestyle();
+      this.saveSettings();
     });
 
     undoBtn.addEventListener('click', () => this.undo());
     redoBtn.addEventListener('click', () => this.redo());
     screenshotBtn.addEventListener('click', () => this.saveImage());
     clearBtn.addEventListener('click', () => this.clear());
+    document.getElementById('openSessionBtn')!.addEventListener('click', () => this.openSession());
+    document.getElementById('saveSessionBtn')!.addEventListener('click', () => this.saveSession());
+    document.getElementById('saveSessionAsBtn')!.addEventListener('click', () => this.saveSession(true));
+    document.getElementById('sendToOverlayBtn')!.addEventListener('click', () => this.sendToOverlay());
+    document.getElementById('insertImageBtn')!.addEventListener('click', () => this.openImage());
+    document.getElementById('mirrorBtn')!.addEventListener('click', () => this.setMirroring(!this.isMirroring));
+    document.getElementById('exportScaleBtn')!.addEventListener('click', () => this.setExportScale(this.exportScale === '1x' ? 'native' : '1x'));
+
+    // Zoom controls
+    document.getElementById('zoomOutBtn')!.addEventListener('click', () => this.zoomBy(1 / 1.25));
+    document.getElementById('zoomInBtn')!.addEventListener('click', () => this.zoomBy(1.25));
+    document.getElementById('zoomLevelBtn')!.addEventListener('click', () => this.resetZoom());
+    document.getElementById('zoomFitBtn')!.addEventListener('click', () => this.zoomToFit());
 
     // Keyboard shortcuts
     window.addEventListener('keydown', (e) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        this.saveSession(e.shiftKey);
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'o') {
+        e.preventDefault();
+        this.openSession();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z' && !e.shiftKey && !this.isEditingText) {
+        // While editing text the text box handles its own undo and redo
         e.preventDefault();
         this.undo();
-      } else if ((e.ctrlKey || e.metaKey) && (e.key === 'y' || (e.key === 'z' && e.shiftKey))) {
+      } else if ((e.ctrlKey || e.metaKey) && (e.key.toLowerCase() === 'y' || (e.key.toLowerCase() === 'z' && e.shiftKey)) && !this.isEditingText) {
         e.preventDefault();
         this.redo();
       } else if (e.key === 'Escape' && this.isEditingText) {
         this.cancelTextInput();
+      } else if (e.key === 'Escape' && this.croppingObject) {
+        this.croppingObject = null;
+        this.redrawCanvas();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && !this.isEditingText && this.selectedObjects.length > 0) {
+        e.preventDefault();
+        this.deleteSelectedObjects();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'c' && !this.isEditingText) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          this.copyCanvasImage();
+        } else {
+          this.copySelection(false);
+        }
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'x' && !this.isEditingText) {
+        e.preventDefault();
+        this.copySelection(true);
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'v' && !this.isEditingText) {
+        e.preventDefault();
+        this.paste();
+      } else if ((e.ctrlKey || e.metaKey) && (e.key === '=' || e.key === '+')) {
+        e.preventDefault();
+        this.zoomBy(1.25);
+      } else if ((e.ctrlKey || e.metaKey) && e.key === '-') {
+        e.preventDefault();
+        this.zoomBy(1 / 1.25);
+      } else if ((e.ctrlKey || e.metaKey) && e.key === '0') {
+        e.preventDefault();
+        this.resetZoom();
+      } else if (e.shiftKey && e.code === 'Digit1' && !this.isEditingText) {
+        e.preventDefault();
+        this.zoomToFit();
+      } else if (e.key === 'PageUp' && !this.isEditingText) {
+        e.preventDefault();
+        this.goToPage(this.currentPageIndex - 1);
+      } else if (e.key === 'PageDown' && !this.isEditingText) {
+        e.preventDefault();
+        this.goToPage(this.currentPageIndex + 1);
+      } else if (e.key === ' ' && !this.isEditingText) {
+        // Hold Space and drag to pan
+        e.preventDefault();
+        if (!this.isSpaceDown) {
+          this.isSpaceDown = true;
+          this.updatePanCursor();
+        }
       }
     });
 
-    // Window resize
-    window.addEventListener('resize', () => {
-      const imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
-      this.canvas.width = window.innerWidth;
-      this.canvas.height = window.innerHeight;
-      this.fillBackground();
-      this.ctx.putImageData(imageData, 0, 0);
-
-      if (this.tempCanvas) {
-        this.tempCanvas.width = this.canvas.width;
-        this.tempCanvas.height = this.canvas.height;
+    window.addEventListener('keyup', (e) => {
+      if (e.key === ' ' && this.isSpaceDown) {
+        this.isSpaceDown = false;
+        this.updatePanCursor();
       }
     });
 
+    // Window resize and display scale changes
+    window.addEventListener('resize', () => this.resizeCanvases());
+    watchPixelRatio(() => this.resizeCanvases());
+
     // Update undo/redo button states
     this.updateHistoryButtons();
   }
 
   private selectTool(tool: WhiteboardTool) {
     this.currentTool = tool;
+    this.toolBeforePenEraser = null;
     this.cancelTextInput();
     this.clearSelection(); // Clear any existing selection
 
@@ -303,36 +598,103 @@ class WhiteboardApp {
       document.getElementById('shapesBtn')?.classList.add('active');
     }
 
+    this.saveSettings();
     console.log('Selected tool:', tool);
   }
 
-  private handleMouseDown(e: MouseEvent) {
+  private handlePointerDown(e: PointerEvent) {
     // Don't draw if mouse is over toolbar
     if (this.isMouseOverToolbar) {
       return;
     }
 
+    if (e.pointerType === 'touch') {
+      this.touchPoints.set(e.pointerId, { x: e.offsetX, y: e.offsetY });
+
+      // A second finger turns whatever the first one started into a pinch
+      if (this.touchPoints.size >= 2) {
+        if (!this.pinch) {
+          this.cancelPointerAction();
+        }
+        this.startPinch();
+      }
+      if (this.pinch) return;
+    }
+
+    // The pen's eraser end erases until the tip is used again
+    if (isPenEraser(e)) {
+      if (this.currentTool !== 'eraser') {
+        const previousTool = this.currentTool;
+        this.selectTool('eraser');
+        this.toolBeforePenEraser = previousTool;
+      }
+    } else if (e.pointerType === 'pen' && this.toolBeforePenEraser) {
+      this.selectTool(this.toolBeforePenEraser);
+    }
+
     if (this.isEditingText) {
       this.finalizeTextInput();
     }
 
-    const x = e.offsetX;
-    const y = e.offsetY;
+    // Middle button or Space + drag pans the board; any drag does while mirroring
+    if (e.button === 1 || this.isSpaceDown || this.isMirroring) {
+      e.preventDefault();
+      this.isPanning = true;
+      this.panLastX = e.offsetX;
+      this.panLastY = e.offsetY;
+      this.updatePanCursor();
+      return;
+    }
+
+    const { x, y } = this.toBoardPoint(e.offsetX, e.offsetY);
 
     // Handle select tool
     if (this.currentTool === 'select') {
-      if (this.selectionRect && this.isInsideSelection(x, y)) {
-        // Start dragging existing selection
-        this.isDraggingSelection = true;
-        this.selectionOffsetX = x - this.selectionRect.x;
-        this.selectionOffsetY = y - this.selectionRect.y;
-        this.canvas.style.cursor = 'move';
+      // Handles of a single selected object take priority over everything else
+      const single = this.getSingleSelection();
+      const handle = single ? this.engine.hitTestHandle(single, x, y) : null;
+      const hitObject = handle ? null : this.engine.hitTestObject(this.drawnObjects, x, y);
+
+      if (handle && single) {
+        this.commitRestyle();
+        this.activeHandle = handle;
+        this.transformStart = this.engine.startTransform(single, x, y);
+        this.canvas.style.cursor = this.engine.getHandleCursor(handle);
+      } else if (hitObject) {
+        this.commitRestyle();
+        const members = this.getGroupMembers(hitObject);
+        if (hitObject !== this.croppingObject) {
+          this.croppingObject = null;
+        }
+        if (e.shiftKey) {
+          // Shift-click adds the object (and its group) to the selection or removes it
+          if (this.selectedObjects.includes(hitObject)) {
+            this.selectedObjects = this.selectedObjects.filter(obj => !members.includes(obj));
+          } else {
+            this.selectedObjects = this.selectedObjects.concat(members);
+          }
+        } else if (!this.selectedObjects.includes(hitObject)) {
+          this.selectedObjects = members;
+        }
+
+        // Start dragging the whole selection
+        if (this.selectedObjects.includes(hitObject)) {
+          this.isDraggingObject = true;
+          this.dragLastX = x;
+          this.dragLastY = y;
+          this.dragTotalX = 0;
+          this.dragTotalY = 0;
+          this.canvas.style.cursor = 'move';
+        }
+        this.redrawCanvas();
       } else {
-        // Start new selection
+        // Start a rubber-band selection; Shift keeps the current selection
+        if (!e.shiftKey) {
+          this.clearSelection();
+        }
         this.isSelecting = true;
         this.startX = x;
         this.startY = y;
-        this.clearSelection();
       }
       return;
     }
@@ -344,31 +706,99 @@ class WhiteboardApp {
     this.startY = y;
 
     if (this.currentTool === 'text') {
-      this.createTextInput(x, y);
+      // Clicking existing text re-opens it, anywhere else starts new text
+      const hitObject = this.engine.hitTestObject(this.drawnObjects, x, y);
+      if (hitObject?.type === 'text') {
+        this.editTextObject(hitObject);
+      } else {
+        this.createTextInput(x, y);
+      }
       this.isDrawing = false;
-    } else if (this.currentTool === 'brush' || this.currentTool === 'eraser') {
-      this.ctx.beginPath();
-      this.ctx.moveTo(this.lastX, this.lastY);
-    } else {
-      // For shapes, save current canvas state
-      this.savedImageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+    } else if (this.currentTool === 'brush') {
+      const point = getStrokePoint(x, y, e);
+      this.currentStroke = {
+        type: 'brush',
+        tool: 'brush',
+        color: this.color,
+        size: this.size,
+        points: [point]
+      };
+      this.strokePointer = point;
+      this.engine.drawDot(x, y, this.color, this.engine.getStrokeWidth(this.size, point.pressure));
+    } else if (this.currentTool === 'eraser') {
+      this.hasErasedInStroke = false;
+      this.eraseStartObjects = this.drawnObjects.slice();
+
+      // Erase whatever is directly under the pointer
+      this.erase(x, y, x, y);
     }
   }
 
-  private handleMouseMove(e: MouseEvent) {
-    const currentX = e.offsetX;
-    const currentY = e.offsetY;
+  private handlePointerMove(e: PointerEvent) {
+    if (e.pointerType === 'touch' && this.touchPoints.has(e.pointerId)) {
+      this.touchPoints.set(e.pointerId, { x: e.offsetX, y: e.offsetY });
+      if (this.pinch) {
+        this.updatePinch();
+        return;
+      }
+    }
+
+    // Extra fingers beyond a pinch don't draw
+    if (!e.isPrimary) return;
+
+    if (this.isPanning) {
+      this.panBy(e.offsetX - this.panLastX, e.offsetY - this.panLastY);
+      this.panLastX = e.offsetX;
+      this.panLastY = e.offsetY;
+      return;
+    }
+
+    if (this.isMirroring) return;
+
+    const { x: currentX, y: currentY } = this.toBoardPoint(e.offsetX, e.offsetY);
 
     // Handle selection tool
     if (this.currentTool === 'select') {
-      if (this.isSelecting) {
+      const single = this.getSingleSelection();
+
+      if (this.activeHandle && single && this.transformStart) {
+        // Resize or rotate the selected object
+        if (this.activeHandle === 'rotate') {
+          this.engine.rotateObject(single, this.transformStart, currentX, currentY, e.shiftKey);
+        } else {
+          if (single === this.croppingObject) {
+            this.engine.cropObject(single, this.transformStart, this.activeHandle, currentX, currentY);
+          } else {
+            this.engine.resizeObject(single, this.transformStart, this.activeHandle, currentX, currentY, e.shiftKey);
+          }
+        }
+        this.redrawCanvas();
+      } else if (this.isDraggingObject) {
+        // Move every selected object
+        const deltaX = currentX - this.dragLastX;
+        const deltaY = currentY - this.dragLastY;
+        for (const obj of this.selectedObjects) {
+          this.engine.moveObject(obj, deltaX, deltaY);
+        }
+        this.dragLastX = currentX;
+        this.dragLastY = currentY;
+        this.dragTotalX += deltaX;
+        this.dragTotalY += deltaY;
+        this.redrawCanvas();
+      } else if (this.isSelecting) {
         // Drawing selection rectangle
-        this.drawSelectionRect(this.startX, this.startY, currentX, currentY);
-      } else if (this.isDraggingSelection && this.selectionRect) {
-        // Moving selection
-        const newX = currentX - this.selectionOffsetX;
-        const newY = currentY - this.selectionOffsetY;
-        this.moveSelection(newX, newY);
+        this.redrawCanvas();
+        this.engine.drawSelectionRect(this.startX, this.startY, currentX, currentY);
+      } else {
+        // Show what a press would grab
+        const handle = single ? this.engine.hitTestHandle(single, currentX, currentY) : null;
+        if (handle) {
+          this.canvas.style.cursor = this.engine.getHandleCursor(handle);
+        } else if (this.engine.hitTestObject(this.drawnObjects, currentX, currentY)) {
+          this.canvas.style.cursor = 'move';
+        } else {
+          this.canvas.style.cursor = 'crosshair';
+        }
       }
       return;
     }
@@ -376,217 +806,295 @@ class WhiteboardApp {
     if (!this.isDrawing) return;
 
     if (this.currentTool === 'brush') {
-      this.drawLine(this.lastX, this.lastY, currentX, currentY);
-      this.lastX = currentX;
-      this.lastY = currentY;
+      if (!this.currentStroke || !this.currentStroke.points) return;
+
+      // Each segment is as wide as the pen pressure along it, and trails the pointer as much as smoothing asks
+      const points = this.currentStroke.points;
+      for (const sample of getPointerSamples(e)) {
+        const board = this.toBoardPoint(sample.offsetX, sample.offsetY);
+        this.strokePointer = getStrokePoint(board.x, board.y, sample);
+        const point = this.engine.smoothPoint(points[points.length - 1], this.strokePointer, this.smoothing);
+        const width = this.engine.getStrokeWidth(this.size, this.engine.getSegmentPressure(points[points.length - 1], point));
+        points.push(point);
+
+        this.engine.drawLine(this.lastX, this.lastY, point.x, point.y, this.color, width);
+        this.lastX = point.x;
+        this.lastY = point.y;
+      }
     } else if (this.currentTool === 'eraser') {
       this.erase(this.lastX, this.lastY, currentX, currentY);
       this.lastX = currentX;
       this.lastY = currentY;
-    } else if (this.isShapeTool(this.currentTool)) {
-      // Draw shape preview
-      if (this.savedImageData) {
-        this.ctx.putImageData(this.savedImageData, 0, 0);
-      }
-      this.drawShape(this.currentTool, this.startX, this.startY, currentX, currentY);
+    } else if (isShapeTool(this.currentTool)) {
+      // Draw shape preview on top of the stored objects
+      this.redrawCanvas();
+      this.engine.drawShape(this.startX, this.startY, currentX, currentY, this.currentTool, this.color, this.size);
+      this.lastX = currentX;
+      this.lastY = currentY;
     }
   }
 
-  private handleMouseUp(e: MouseEvent) {
+  private handlePointerUp(e: PointerEvent) {
+    if (e.pointerType === 'touch' && this.touchPoints.delete(e.pointerId) && this.pinch) {
+      if (this.touchPoints.size === 0) {
+        this.pinch = null;
+      } else {
+        // Carry on with the fingers that are left, from where they are now
+        this.startPinch();
+      }
+      return;
+    }
+
+    if (!e.isPrimary) return;
+
+    if (this.isPanning) {
+      this.isPanning = false;
+      this.updatePanCursor();
+      return;
+    }
+
+    const point = this.toBoardPoint(e.offsetX, e.offsetY);
+
     // Handle selection tool
     if (this.currentTool === 'select') {
-      if (this.isSelecting) {
-        // Finalize selection rectangle
-        const x = Math.min(this.startX, e.offsetX);
-        const y = Math.min(this.startY, e.offsetY);
-        const width = Math.abs(e.offsetX - this.startX);
-        const height = Math.abs(e.offsetY - this.startY);
-
-        if (width > 5 && height > 5) {
-          this.finalizeSelection(x, y, width, height);
+      if (this.activeHandle) {
+        this.finishTransform();
+      } else if (this.isDraggingObject) {
+        // Finished moving - the objects stay selected for further changes
+        this.isDraggingObject = false;
+        this.canvas.style.cursor = 'crosshair';
+
+        if (this.dragTotalX !== 0 || this.dragTotalY !== 0) {
+          this.history.push(new MoveObjectsCommand(
+            this.selectedObjects.slice(),
+            this.dragTotalX,
+            this.dragTotalY,
+            (o, dx, dy) => this.engine.moveObject(o, dx, dy)
+          ));
         }
+      } else if (this.isSelecting) {
+        // Select every object touching the rectangle
+        const x = Math.min(this.startX, point.x);
+        const y = Math.min(this.startY, point.y);
+        const width = Math.abs(point.x - this.startX);
+        const height = Math.abs(point.y - this.startY);
+
         this.isSelecting = false;
-      } else if (this.isDraggingSelection) {
-        // Finished moving selection
-        this.isDraggingSelection = false;
-        this.canvas.style.cursor = 'crosshair';
-        if (this.selectionRect) {
-          this.pasteSelection();
+        if (width * this.view.zoom > 5 && height * this.view.zoom > 5) {
+          const selected = new Set(this.selectedObjects);
+          for (const obj of this.engine.getObjectsInRect(this.drawnObjects, { x, y, width, height })) {
+            this.getGroupMembers(obj).forEach(member => selected.add(member));
+          }
+          this.selectedObjects = this.drawnObjects.filter(obj => selected.has(obj));
         }
+        this.redrawCanvas();
       }
       return;
     }
 
-    if (this.isDrawing && this.currentTool !== 'text') {
+    if (!this.isDrawing || this.currentTool === 'text') return;
+    this.isDrawing = false;
+
+    if (this.currentTool === 'brush') {
+      // Save the completed brush stroke as an object
+      if (this.currentStroke && this.currentStroke.points && this.currentStroke.points.length > 0) {
+        const points = this.currentStroke.points;
+        const end = points[points.length - 1];
+
+        // Smoothing trails the pointer, so finish the stroke where it was lifted
+        if (this.strokePointer && (this.strokePointer.x !== end.x || this.strokePointer.y !== end.y)) {
+          const width = this.engine.getStrokeWidth(this.size, this.engine.getSegmentPressure(end, this.strokePointer));
+          this.engine.drawLine(end.x, end.y, this.strokePointer.x, this.strokePointer.y, this.color, width);
+          points.push(this.strokePointer);
+        }
+
+        const shape = this.smartShapes ? this.engine.recognizeShape(this.currentStroke) : null;
+        if (shape) {
+          this.addObject(shape);
+          this.redrawCanvas();
+        } else {
+          this.currentStroke.bounds = this.engine.calculateStrokeBounds(points, this.currentStroke.size);
+          this.addObject(this.currentStroke);
+        }
+      }
+      this.currentStroke = null;
+      this.strokePointer = null;
+    } else if (this.currentTool === 'eraser') {
+      // Only record history when the eraser actually removed something
+      if (this.hasErasedInStroke) {
+        this.history.push(new ObjectListCommand('Erase', this.objectListTarget, this.eraseStartObjects, this.drawnObjects.slice()));
+      }
+      this.hasErasedInStroke = false;
+      this.eraseStartObjects = [];
+    } else if (isShapeTool(this.currentTool)) {
+      this.addObject({
+        type: 'shape',
+        tool: this.currentTool,
+        color: this.color,
+        size: this.size,
+        startX: this.startX,
+        startY: this.startY,
+        endX: this.lastX,
+        endY: this.lastY,
+        bounds: this.engine.calculateShapeBounds(this.startX, this.startY, this.lastX, this.lastY)
+      });
+      this.redrawCanvas();
+    }
+  }
+
+  // Undoes whatever the first finger started when a second one comes down to pinch
+  private cancelPointerAction() {
+    if (this.isDrawing) {
+      if (this.currentTool === 'eraser' && this.hasErasedInStroke) {
+        this.drawnObjects = this.eraseStartObjects;
+      }
       this.isDrawing = false;
-      this.saveState();
+      this.currentStroke = null;
+      this.hasErasedInStroke = false;
+      this.eraseStartObjects = [];
+    }
+
+    const single = this.getSingleSelection();
+    if (this.activeHandle && single && this.transformStart) {
+      Object.assign(single, structuredClone(this.transformStart.geometry));
+      this.engine.updateObjectBounds(single);
     }
+    this.activeHandle = null;
+    this.transformStart = null;
+
+    if (this.isDraggingObject) {
+      for (const obj of this.selectedObjects) {
+        this.engine.moveObject(obj, -this.dragTotalX, -this.dragTotalY);
+      }
+      this.isDraggingObject = false;
+    }
+
+    this.isSelecting = false;
+    this.isPanning = false;
+    this.updatePanCursor();
+    this.redrawCanvas();
   }
 
-  private drawLine(x1: number, y1: number, x2: number, y2: number) {
-    this.ctx.strokeStyle = this.color;
-    this.ctx.lineWidth = this.size;
-    this.ctx.lineTo(x2, y2);
-    this.ctx.stroke();
-    this.ctx.beginPath();
-    this.ctx.moveTo(x2, y2);
+  // The pinch is measured from the current finger positions; with one finger left it only pans
+  private startPinch() {
+    const points = Array.from(this.touchPoints.values());
+    const center = this.getTouchCenter(points);
+    this.pinch = {
+      distance: points.length > 1 ? Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y) : 0,
+      zoom: this.view.zoom,
+      anchor: this.toBoardPoint(center.x, center.y)
+    };
   }
 
-  private erase(x1: number, y1: number, x2: number, y2: number) {
-    this.ctx.save();
-    this.ctx.globalCompositeOperation = 'destination-out';
-    this.ctx.lineWidth = this.size * 2;
-    this.ctx.lineCap = 'round';
-    this.ctx.lineJoin = 'round';
-    this.ctx.strokeStyle = 'rgba(0,0,0,1)';
+  // Keeps the board point that was between the fingers under them, scaled by how far they spread
+  private updatePinch() {
+    const points = Array.from(this.touchPoints.values());
+    const center = this.getTouchCenter(points);
 
-    this.ctx.beginPath();
-    this.ctx.moveTo(x1, y1);
-    this.ctx.lineTo(x2, y2);
-    this.ctx.stroke();
+    let zoom = this.pinch!.zoom;
+    if (points.length > 1 && this.pinch!.distance > 0) {
+      const distance = Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y);
+      zoom = Math.min(this.maxZoom, Math.max(this.minZoom, zoom * distance / this.pinch!.distance));
+    }
 
-    this.ctx.restore();
-    this.lastX = x2;
-    this.lastY = y2;
-  }
-
-  private isShapeTool(tool: WhiteboardTool): boolean {
-    return ['arrow', 'rectangle', 'circle', 'line', 'roundRect', 'star'].includes(tool);
-  }
-
-  private drawShape(shape: WhiteboardTool, x1: number, y1: number, x2: number, y2: number) {
-    this.ctx.strokeStyle = this.color;
-    this.ctx.lineWidth = this.size;
-    this.ctx.fillStyle = this.color;
-
-    switch (shape) {
-      case 'line':
-        this.drawLineShape(x1, y1, x2, y2);
-        break;
-      case 'arrow':
-        this.drawArrow(x1, y1, x2, y2);
-        break;
-      case 'rectangle':
-        this.drawRectangle(x1, y1, x2, y2);
-        break;
-      case 'circle':
-        this.drawCircle(x1, y1, x2, y2);
-        break;
-      case 'roundRect':
-        this.drawRoundedRectangle(x1, y1, x2, y2);
-        break;
-      case 'star':
-        this.drawStar(x1, y1, x2, y2);
-        break;
-    }
-  }
-
-  private drawLineShape(x1: number, y1: number, x2: number, y2: number) {
-    this.ctx.beginPath();
-    this.ctx.moveTo(x1, y1);
-    this.ctx.lineTo(x2, y2);
-    this.ctx.stroke();
-  }
-
-  private drawArrow(x1: number, y1: number, x2: number, y2: number) {
-    const headLength = Math.max(15, this.size * 3);
-    const angle = Math.atan2(y2 - y1, x2 - x1);
-
-    // Draw line
-    this.ctx.beginPath();
-    this.ctx.moveTo(x1, y1);
-    this.ctx.lineTo(x2, y2);
-    this.ctx.stroke();
-
-    // Draw arrowhead
-    this.ctx.beginPath();
-    this.ctx.moveTo(x2, y2);
-    this.ctx.lineTo(
-      x2 - headLength * Math.cos(angle - Math.PI / 6),
-      y2 - headLength * Math.sin(angle - Math.PI / 6)
-    );
-    this.ctx.moveTo(x2, y2);
-    this.ctx.lineTo(
-      x2 - headLength * Math.cos(angle + Math.PI / 6),
-      y2 - headLength * Math.sin(angle + Math.PI / 6)
-    );
-    this.ctx.stroke();
-  }
-
-  private drawRectangle(x1: number, y1: number, x2: number, y2: number) {
-    const width = x2 - x1;
-    const height = y2 - y1;
-    this.ctx.beginPath();
-    this.ctx.rect(x1, y1, width, height);
-    this.ctx.stroke();
-  }
-
-  private drawCircle(x1: number, y1: number, x2: number, y2: number) {
-    const radiusX = Math.abs(x2 - x1) / 2;
-    const radiusY = Math.abs(y2 - y1) / 2;
-    const centerX = x1 + (x2 - x1) / 2;
-    const centerY = y1 + (y2 - y1) / 2;
-
-    this.ctx.beginPath();
-    this.ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
-    this.ctx.stroke();
-  }
-
-  private drawRoundedRectangle(x1: number, y1: number, x2: number, y2: number) {
-    const width = x2 - x1;
-    const height = y2 - y1;
-    const radius = Math.min(Math.abs(width), Math.abs(height)) * 0.1;
-
-    this.ctx.beginPath();
-    this.ctx.moveTo(x1 + radius, y1);
-    this.ctx.lineTo(x2 - radius, y1);
-    this.ctx.quadraticCurveTo(x2, y1, x2, y1 + radius);
-    this.ctx.lineTo(x2, y2 - radius);
-    this.ctx.quadraticCurveTo(x2, y2, x2 - radius, y2);
-    this.ctx.lineTo(x1 + radius, y2);
-    this.ctx.quadraticCurveTo(x1, y2, x1, y2 - radius);
-    this.ctx.lineTo(x1, y1 + radius);
-    this.ctx.quadraticCurveTo(x1, y1, x1 + radius, y1);
-    this.ctx.stroke();
-  }
-
-  private drawStar(x1: number, y1: number, x2: number, y2: number) {
-    const centerX = (x1 + x2) / 2;
-    const centerY = (y1 + y2) / 2;
-    const outerRadius = Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2)) / 2;
-    const innerRadius = outerRadius * 0.4;
-    const spikes = 5;
-
-    this.ctx.beginPath();
-    for (let i = 0; i < spikes * 2; i++) {
-      const radius = i % 2 === 0 ? outerRadius : innerRadius;
-      const angle = (i * Math.PI) / spikes - Math.PI / 2;
-      const x = centerX + radius * Math.cos(angle);
-      const y = centerY + radius * Math.sin(angle);
-
-      if (i === 0) {
-        this.ctx.moveTo(x, y);
-      } else {
-        this.ctx.lineTo(x, y);
-      }
+    this.view.zoom = zoom;
+    this.view.x = center.x - this.pinch!.anchor.x * zoom;
+    this.view.y = center.y - this.pinch!.anchor.y * zoom;
+    this.onViewChanged();
+  }
+
+  private getTouchCenter(points: Array<{ x: number; y: number }>): { x: number; y: number } {
+    const count = Math.min(points.length, 2);
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < count; i++) {
+      x += points[i].x / count;
+      y += points[i].y / count;
+    }
+    return { x, y };
+  }
+
+  private setSmoothing(smoothing: StrokeSmoothing) {
+    this.smoothing = smoothing;
+    document.querySelectorAll('.brush-option[data-smoothing]').forEach(option => {
+      option.classList.toggle('active', (option as HTMLElement).dataset.smoothing === smoothing);
+    });
+    this.saveSettings();
+  }
+
+  private setSmartShapes(enabled: boolean) {
+    this.smartShapes = enabled;
+    document.getElementById('smartShapesOption')?.classList.toggle('active', enabled);
+    this.saveSettings();
+  }
+
+  private handleDoubleClick(e: MouseEvent) {
+    if (this.currentTool !== 'select' || this.isMouseOverToolbar || this.isMirroring) return;
+
+    // Double-click re-opens a text object for editing, or crops an image
+    const point = this.toBoardPoint(e.offsetX, e.offsetY);
+    const hitObject = this.engine.hitTestObject(this.drawnObjects, point.x, point.y);
+    if (hitObject?.type === 'text') {
+      this.editTextObject(hitObject);
+    } else if (hitObject?.type === 'image') {
+      this.commitRestyle();
+      this.croppingObject = this.croppingObject === hitObject ? null : hitObject;
+      this.selectedObjects = [hitObject];
+      this.redrawCanvas();
     }
-    this.ctx.closePath();
-    this.ctx.stroke();
+  }
+
+  private erase(x1: number, y1: number, x2: number, y2: number) {
+    const remaining = this.engine.eraseObjects(this.drawnObjects, x1, y1, x2, y2, this.size, this.eraserMode === 'partial');
+    if (!remaining) return;
+
+    this.drawnObjects = remaining;
+    this.hasErasedInStroke = true;
+    this.redrawCanvas();
+  }
+
+  private finishTransform() {
+    const obj = this.getSingleSelection();
+    const start = this.transformStart;
+    const handle = this.activeHandle;
+
+    this.activeHandle = null;
+    this.transformStart = null;
+    this.canvas.style.cursor = 'crosshair';
+
+    if (!obj || !start) return;
+
+    const geometry = this.engine.getGeometry(obj);
+    if (this.engine.isSameGeometry(start.geometry, geometry)) return;
+
+    const label = handle === 'rotate' ? 'Rotate' : obj === this.croppingObject ? 'Crop' : 'Resize';
+    this.history.push(new UpdateObjectCommand(label, obj, start.geometry, geometry, (o) => this.engine.updateObjectBounds(o)));
   }
 
   // Text tool implementation
-  private createTextInput(x: number, y: number) {
+  private editTextObject(obj: DrawObject) {
+    this.clearSelection();
+    this.editingTextObject = obj;
+    this.createTextInput(obj.x!, obj.y!, obj);
+    this.redrawCanvas();
+  }
+
+  private createTextInput(x: number, y: number, existing?: DrawObject) {
     // Get canvas position
     const canvasRect = this.canvas.getBoundingClientRect();
+    const screen = this.toScreenPoint(x, y);
+    const fontSize = existing?.fontSize || this.fontSize;
+    const color = existing?.color || this.color;
 
+    this.textInputOrigin = { x, y };
     this.textInput = document.createElement('textarea');
     this.textInput.style.position = 'fixed'; // Use fixed instead of absolute
-    this.textInput.style.left = (canvasRect.left + x) + 'px';
-    this.textInput.style.top = (canvasRect.top + y) + 'px';
-    this.textInput.style.fontSize = this.fontSize + 'px';
-    this.textInput.style.color = this.color;
-    this.textInput.style.fontFamily = '-apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif';
-    this.textInput.style.border = '2px solid ' + this.color;
+    this.textInput.style.left = (canvasRect.left + screen.x) + 'px';
+    this.textInput.style.top = (canvasRect.top + screen.y) + 'px';
+    this.textInput.style.fontSize = fontSize * this.view.zoom + 'px';
+    this.textInput.style.color = color;
+    this.textInput.style.fontFamily = existing?.fontFamily || DEFAULT_FONT_FAMILY;
+    this.textInput.style.border = '2px solid ' + color;
     this.textInput.style.background = 'white';
     this.textInput.style.padding = '8px';
     this.textInput.style.borderRadius = '4px';
@@ -597,6 +1105,7 @@ class WhiteboardApp {
     this.textInput.rows = 1;
     this.textInput.cols = 20;
     this.textInput.placeholder = 'Type text here...';
+    this.textInput.value = existing?.text || '';
 
     document.body.appendChild(this.textInput);
 
@@ -604,12 +1113,11 @@ class WhiteboardApp {
     setTimeout(() => {
       if (this.textInput) {
         this.textInput.focus();
+        this.textInput.style.height = this.textInput.scrollHeight + 'px';
         this.isEditingText = true;
       }
     }, 50);
 
-    console.log('Text input created at:', x, y);
-
     // Auto-resize textarea
     this.textInput.addEventListener('input', () => {
       if (this.textInput) {
@@ -640,23 +1148,34 @@ class WhiteboardApp {
     if (!this.textInput || !this.isEditingText) return;
 
     const text = this.textInput.value.trim();
-    if (text) {
-      // Get canvas position to convert fixed coordinates back to canvas coordinates
-      const canvasRect = this.canvas.getBoundingClientRect();
-      const x = parseInt(this.textInput.style.left) - canvasRect.left;
-      const y = parseInt(this.textInput.style.top) - canvasRect.top;
-
-      this.ctx.font = `${this.fontSize}px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif`;
-      this.ctx.fillStyle = this.color;
-      this.ctx.textBaseline = 'top';
-
-      const lines = text.split('\n');
-      lines.forEach((line, index) => {
-        this.ctx.fillText(line, x, y + (index * this.fontSize * 1.2));
-      });
-
-      this.saveState();
-      console.log('Text rendered at canvas coords:', x, y);
+    const existing = this.editingTextObject;
+
+    if (existing) {
+      if (!text) {
+        // Clearing the text deletes the object
+        const before = this.drawnObjects.slice();
+        this.drawnObjects = this.drawnObjects.filter(obj => obj !== existing);
+        this.history.push(new ObjectListCommand('Delete', this.objectListTarget, before, this.drawnObjects.slice()));
+      } else if (text !== existing.text) {
+        const previous = existing.text;
+        existing.text = text;
+        this.engine.updateObjectBounds(existing);
+        this.history.push(new UpdateObjectCommand('Edit Text', existing, { text: previous }, { text }, (o) => this.engine.updateObjectBounds(o)));
+      }
+    } else if (text) {
+      const textObject: DrawObject = {
+        type: 'text',
+        tool: 'text',
+        color: this.color,
+        size: this.size,
+        text,
+        fontSize: this.fontSize,
+        fontFamily: DEFAULT_FONT_FAMILY,
+        x: this.textInputOrigin.x,
+        y: this.textInputOrigin.y
+      };
+      textObject.bounds = this.engine.calculateTextBounds(textObject);
+      this.addObject(textObject);
     }
 
     this.cancelTextInput();
@@ -668,44 +1187,722 @@ class WhiteboardApp {
       this.textInput = null;
     }
     this.isEditingText = false;
+
+    if (this.editingTextObject) {
+      this.editingTextObject = null;
+      this.redrawCanvas();
+    }
+  }
+
+  // Object management
+  private addObject(obj: DrawObject) {
+    const before = this.drawnObjects.slice();
+    this.drawnObjects.push(obj);
+    this.history.push(new ObjectListCommand('Add', this.objectListTarget, before, this.drawnObjects.slice()));
+  }
+
+  private deleteSelectedObjects(label = 'Delete') {
+    if (this.selectedObjects.length === 0) return;
+
+    const before = this.drawnObjects.slice();
+    this.drawnObjects = this.drawnObjects.filter(obj => !this.selectedObjects.includes(obj));
+    this.selectedObjects = [];
+    this.croppingObject = null;
+    this.history.push(new ObjectListCommand(label, this.objectListTarget, before, this.drawnObjects.slice()));
+    this.redrawCanvas();
+  }
+
+  private getSingleSelection(): DrawObject | null {
+    if (this.selectedObjects.length !== 1) return null;
+    return this.selectedObjects[0];
+  }
+
+  // An object together with everything grouped with it
+  private getGroupMembers(obj: DrawObject): DrawObject[] {
+    if (!obj.groupId) return [obj];
+    return this.drawnObjects.filter(other => other.groupId === obj.groupId);
+  }
+
+  // Apply style changes to the selected objects while a control is being adjusted
+  private previewRestyle(props: Partial<DrawObject>) {
+    if (this.selectedObjects.length === 0 || this.currentTool !== 'select') return;
+
+    const isTextStyle = (Object.keys(props) as Array<keyof DrawObject>).some(key => TEXT_STYLE_KEYS.includes(key));
+
+    for (const obj of this.selectedObjects) {
+      // Font settings only apply to text
+      if (isTextStyle && obj.type !== 'text') continue;
+
+      let pending = this.pendingRestyle.find(entry => entry.obj === obj);
+      if (!pending) {
+        pending = { obj, before: {} };
+        this.pendingRestyle.push(pending);
+      }
+
+      // Remember the original value of every property touched during this adjustment
+      for (const key of Object.keys(props) as Array<keyof DrawObject>) {
+        if (!(key in pending.before)) {
+          Object.assign(pending.before, { [key]: obj[key] });
+        }
+      }
+
+      Object.assign(obj, props);
+      this.engine.updateObjectBounds(obj);
+    }
+
+    this.redrawCanvas();
+    this.scheduleThumbnailUpdate();
+  }
+
+  private commitRestyle() {
+    if (this.pendingRestyle.length === 0) return;
+
+    const commands: HistoryCommand[] = [];
+    for (const { obj, before } of this.pendingRestyle) {
+      const after: Partial<DrawObject> = {};
+      let changed = false;
+      for (const key of Object.keys(before) as Array<keyof DrawObject>) {
+        Object.assign(after, { [key]: obj[key] });
+        if (obj[key] !== before[key]) {
+          changed = true;
+        }
+      }
+
+      if (changed) {
+        commands.push(new UpdateObjectCommand('Restyle', obj, before, after, (o) => this.engine.updateObjectBounds(o)));
+      }
+    }
+    this.pendingRestyle = [];
+
+    if (commands.length > 0) {
+      this.history.push(new CompositeCommand('Restyle', commands));
+    }
+  }
+
+  private setEraserMode(mode: EraserMode) {
+    this.eraserMode = mode;
+
+    const eraserOptions = document.querySelectorAll('.eraser-option');
+    eraserOptions.forEach(opt => {
+      opt.classList.toggle('active', (opt as HTMLElement).dataset.eraserMode === mode);
+    });
+
+    this.saveSettings();
+  }
+
+  private redrawCanvas(showSelection = true) {
+    // The background and grid are painted into the canvas so they end up in saved images
+    this.ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    this.ctx.fillStyle = this.backgroundColor;
+    this.ctx.fillRect(0, 0, window.innerWidth, window.innerHeight);
+    this.drawGrid();
+
+    // Objects are drawn in board coordinates; the transform stays set for strokes in progress
+    const scale = this.pixelRatio * this.view.zoom;
+    this.ctx.setTransform(scale, 0, 0, scale, this.pixelRatio * this.view.x, this.pixelRatio * this.view.y);
+
+    // Text that is open in the editor is shown by the textarea instead
+    for (const obj of this.isMirroring ? this.mirroredObjects : this.drawnObjects) {
+      if (obj === this.editingTextObject) continue;
+      this.engine.drawObject(obj);
+    }
+
+    if (showSelection) {
+      // The whole picture shows faintly behind an image being cropped
+      if (this.croppingObject && this.getSingleSelection() === this.croppingObject) {
+        this.engine.drawCropPreview(this.croppingObject);
+        this.engine.drawObject(this.croppingObject);
+      }
+      this.engine.drawSelectionChrome(this.selectedObjects);
+    }
   }
 
   // History management (undo/redo)
-  private saveState() {
-    // Remove any states after current step (when user makes new action after undo)
-    if (this.historyStep < this.history.length - 1) {
-      this.history = this.history.slice(0, this.historyStep + 1);
+  private undo() {
+    if (this.isMirroring) return;
+
+    this.clearSelection();
+    this.history.undo();
+    this.redrawCanvas();
+  }
+
+  private redo() {
+    if (this.isMirroring) return;
+
+    this.clearSelection();
+    this.history.redo();
+    this.redrawCanvas();
+  }
+
+  private resizeCanvases() {
+    // Objects are redrawn from scratch and the board extends past the window, so nothing is cropped
+    this.setupCanvas();
+  }
+
+  // Pan and zoom
+  private toBoardPoint(x: number, y: number): { x: number; y: number } {
+    return {
+      x: (x - this.view.x) / this.view.zoom,
+      y: (y - this.view.y) / this.view.zoom
+    };
+  }
+
+  private toScreenPoint(x: number, y: number): { x: number; y: number } {
+    return {
+      x: x * this.view.zoom + this.view.x,
+      y: y * this.view.zoom + this.view.y
+    };
+  }
+
+  private handleWheel(e: WheelEvent) {
+    e.preventDefault();
+
+    if (e.ctrlKey || e.metaKey) {
+      // Ctrl+wheel, and trackpad pinches which arrive as Ctrl+wheel, zoom around the pointer
+      this.zoomAt(this.view.zoom * Math.exp(-e.deltaY * 0.01), e.offsetX, e.offsetY);
+    } else {
+      // Plain wheel and two-finger trackpad scrolling pan
+      this.panBy(-e.deltaX, -e.deltaY);
+    }
+  }
+
+  private panBy(deltaX: number, deltaY: number) {
+    this.view.x += deltaX;
+    this.view.y += deltaY;
+    this.onViewChanged();
+  }
+
+  // Zoom to the given level, keeping the board point under (screenX, screenY) in place
+  private zoomAt(zoom: number, screenX: number, screenY: number) {
+    zoom = Math.min(this.maxZoom, Math.max(this.minZoom, zoom));
+    const anchor = this.toBoardPoint(screenX, screenY);
+
+    this.view.zoom = zoom;
+    this.view.x = screenX - anchor.x * zoom;
+    this.view.y = screenY - anchor.y * zoom;
+    this.onViewChanged();
+  }
+
+  private zoomBy(factor: number) {
+    this.zoomAt(this.view.zoom * factor, window.innerWidth / 2, window.innerHeight / 2);
+  }
+
+  private resetZoom() {
+    this.zoomAt(1, window.innerWidth / 2, window.innerHeight / 2);
+  }
+
+  // Fit every object into the window, or go back to the origin when the board is empty
+  private zoomToFit() {
+    // While mirroring, fit the area the overlays cover rather than what happens to be drawn on it
+    const bounds = this.isMirroring ? this.mirrorArea : this.engine.getObjectsBounds(this.drawnObjects);
+    if (!bounds) {
+      this.view = { x: 0, y: 0, zoom: 1 };
+      this.onViewChanged();
+      return;
+    }
+
+    this.fitRect(bounds);
+  }
+
+  private fitRect(rect: Rect) {
+    const margin = 40;
+
+    const zoom = Math.min(
+      this.maxZoom,
+      Math.max(this.minZoom, Math.min(
+        (window.innerWidth - margin * 2) / Math.max(1, rect.width),
+        (window.innerHeight - margin * 2) / Math.max(1, rect.height)
+      ))
+    );
+
+    this.view.zoom = zoom;
+    this.view.x = window.innerWidth / 2 - (rect.x + rect.width / 2) * zoom;
+    this.view.y = window.innerHeight / 2 - (rect.y + rect.height / 2) * zoom;
+    this.onViewChanged();
+  }
+
+  private onViewChanged() {
+    // Text being edited is positioned in screen space, so commit it before the view moves
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+
+    this.engine.viewScale = this.view.zoom;
+    document.getElementById('zoomLevelBtn')!.textContent = Math.round(this.view.zoom * 100) + '%';
+    this.redrawCanvas();
+    this.scheduleThumbnailUpdate();
+  }
+
+  private updatePanCursor() {
+    if (this.isPanning) {
+      this.canvas.style.cursor = 'grabbing';
+    } else if (this.isSpaceDown || this.isMirroring) {
+      this.canvas.style.cursor = 'grab';
+    } else {
+      this.canvas.style.cursor = this.currentTool === 'select' ? 'crosshair' : '';
     }
+  }
 
-    // Save current state
-    const imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
-    this.history.push({ imageData });
-    this.historyStep++;
+  // Grid lines follow the board, thinning out when zoomed far out so they don't turn into a solid fill
+  private drawGrid() {
+    if (this.gridType === 'none') return;
 
-    // Limit history size
-    if (this.history.length > this.maxHistorySteps) {
-      this.history.shift();
-      this.historyStep--;
+    let spacing = this.gridSpacing * this.view.zoom;
+    while (spacing < 10) {
+      spacing *= 2;
     }
 
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+    const startX = ((this.view.x % spacing) + spacing) % spacing;
+    const startY = ((this.view.y % spacing) + spacing) % spacing;
+
+    this.ctx.save();
+    if (this.gridType === 'dots') {
+      this.ctx.fillStyle = '#ccc';
+      for (let x = startX; x < width; x += spacing) {
+        for (let y = startY; y < height; y += spacing) {
+          this.ctx.fillRect(x - 1, y - 1, 2, 2);
+        }
+      }
+    } else {
+      this.ctx.strokeStyle = '#e0e0e0';
+      this.ctx.lineWidth = 1;
+      this.ctx.beginPath();
+      for (let x = startX; x < width; x += spacing) {
+        this.ctx.moveTo(Math.round(x) + 0.5, 0);
+        this.ctx.lineTo(Math.round(x) + 0.5, height);
+      }
+      for (let y = startY; y < height; y += spacing) {
+        this.ctx.moveTo(0, Math.round(y) + 0.5);
+        this.ctx.lineTo(width, Math.round(y) + 0.5);
+      }
+      this.ctx.stroke();
+    }
+    this.ctx.restore();
+  }
+
+  // Pages
+  private createPage(): WhiteboardPage {
+    return {
+      id: 'page-' + Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 8),
+      objects: [],
+      backgroundColor: this.backgroundColor,
+      gridType: this.gridType,
+      view: { x: 0, y: 0, zoom: 1 },
+      history: new CommandHistory(() => {
+        this.updateHistoryButtons();
+        this.scheduleThumbnailUpdate();
+        this.pruneImages();
+      })
+    };
+  }
+
+  private get currentPage(): WhiteboardPage {
+    return this.pages[this.currentPageIndex];
+  }
+
+  // Forget decoded images that no page or mirrored drawing shows any more
+  private pruneImages() {
+    const objects = this.pages.map((page, index) => index === this.currentPageIndex ? this.drawnObjects : page.objects);
+    pruneImageCache(objects.flat().concat(this.mirroredObjects));
+  }
+
+  // Write the on-screen state back into the current page
+  private storeCurrentPage() {
+    const page = this.currentPage;
+    page.objects = this.drawnObjects;
+    page.backgroundColor = this.backgroundColor;
+    page.gridType = this.gridType;
+    page.view = { ...this.view };
+  }
+
+  private showPage(index: number) {
+    const page = this.pages[index];
+    this.currentPageIndex = index;
+    this.drawnObjects = page.objects;
+    this.history = page.history;
+    this.backgroundColor = page.backgroundColor;
+    this.gridType = page.gridType;
+    this.view = { ...page.view };
+
+    document.body.style.backgroundColor = this.backgroundColor;
+    this.onViewChanged();
     this.updateHistoryButtons();
+    this.renderPageStrip();
   }
 
-  private undo() {
-    if (this.historyStep > 0) {
-      this.historyStep--;
-      const state = this.history[this.historyStep];
-      this.ctx.putImageData(state.imageData, 0, 0);
-      this.updateHistoryButtons();
+  // Leave the current page with nothing half-finished on it
+  private leaveCurrentPage() {
+    if (this.isEditingText) {
+      this.finalizeTextInput();
     }
+    this.clearSelection();
+    this.storeCurrentPage();
   }
 
-  private redo() {
-    if (this.historyStep < this.history.length - 1) {
-      this.historyStep++;
-      const state = this.history[this.historyStep];
-      this.ctx.putImageData(state.imageData, 0, 0);
-      this.updateHistoryButtons();
+  private goToPage(index: number) {
+    if (this.isMirroring) return;
+    if (index < 0 || index >= this.pages.length || index === this.currentPageIndex) return;
+
+    this.leaveCurrentPage();
+    this.showPage(index);
+  }
+
+  private addPage() {
+    this.leaveCurrentPage();
+    this.pages.splice(this.currentPageIndex + 1, 0, this.createPage());
+    this.showPage(this.currentPageIndex + 1);
+  }
+
+  private duplicatePage() {
+    this.leaveCurrentPage();
+
+    const source = this.currentPage;
+    const copy = this.createPage();
+    copy.objects = structuredClone(source.objects);
+    copy.backgroundColor = source.backgroundColor;
+    copy.gridType = source.gridType;
+    copy.view = { ...source.view };
+
+    this.pages.splice(this.currentPageIndex + 1, 0, copy);
+    this.showPage(this.currentPageIndex + 1);
+  }
+
+  private deletePage() {
+    if (this.pages.length === 1) return;
+    if (this.drawnObjects.length > 0 && !confirm('Are you sure you want to delete this page?')) return;
+
+    this.leaveCurrentPage();
+    this.pages.splice(this.currentPageIndex, 1);
+    this.showPage(Math.min(this.currentPageIndex, this.pages.length - 1));
+    this.pruneImages();
+  }
+
+  // Move a page to another position, keeping the same page on screen
+  private movePage(from: number, to: number) {
+    if (from === to) return;
+
+    this.storeCurrentPage();
+    const current = this.currentPage;
+    const [page] = this.pages.splice(from, 1);
+    this.pages.splice(to, 0, page);
+    this.currentPageIndex = this.pages.indexOf(current);
+    this.renderPageStrip();
+  }
+
+  private setupPageStrip() {
+    document.getElementById('prevPageBtn')!.addEventListener('click', () => this.goToPage(this.currentPageIndex - 1));
+    document.getElementById('nextPageBtn')!.addEventListener('click', () => this.goToPage(this.currentPageIndex + 1));
+    document.getElementById('addPageBtn')!.addEventListener('click', () => this.addPage());
+    document.getElementById('duplicatePageBtn')!.addEventListener('click', () => this.duplicatePage());
+    document.getElementById('deletePageBtn')!.addEventListener('click', () => this.deletePage());
+
+    this.renderPageStrip();
+  }
+
+  // Rebuild the thumbnail strip after pages were added, removed, moved or switched
+  private renderPageStrip() {
+    const container = document.getElementById('pageThumbnails')!;
+    container.innerHTML = '';
+
+    this.pages.forEach((page, index) => {
+      const item = document.createElement('div');
+      item.className = 'page-thumb';
+      item.classList.toggle('active', index === this.currentPageIndex);
+      item.dataset.pageId = page.id;
+      item.draggable = true;
+      item.title = `Page ${index + 1}`;
+
+      const thumbnail = document.createElement('canvas');
+      const number = document.createElement('span');
+      number.className = 'page-number';
+      number.textContent = String(index + 1);
+      item.appendChild(thumbnail);
+      item.appendChild(number);
+
+      item.addEventListener('click', () => this.goToPage(index));
+
+      // Drag a thumbnail onto another to reorder
+      item.addEventListener('dragstart', (e) => {
+        this.draggedPageIndex = index;
+        e.dataTransfer?.setData('text/plain', page.id);
+        item.classList.add('dragging');
+      });
+      item.addEventListener('dragend', () => {
+        this.draggedPageIndex = null;
+        item.classList.remove('dragging');
+      });
+      item.addEventListener('dragover', (e) => {
+        if (this.draggedPageIndex === null) return;
+        e.preventDefault();
+        item.classList.add('drop-target');
+      });
+      item.addEventListener('dragleave', () => item.classList.remove('drop-target'));
+      item.addEventListener('drop', (e) => {
+        e.preventDefault();
+        item.classList.remove('drop-target');
+        if (this.draggedPageIndex !== null) {
+          this.movePage(this.draggedPageIndex, index);
+        }
+      });
+
+      container.appendChild(item);
+      this.drawThumbnail(page, thumbnail);
+    });
+
+    document.getElementById('pageIndicator')!.textContent = `${this.currentPageIndex + 1} / ${this.pages.length}`;
+    (document.getElementById('prevPageBtn') as HTMLButtonElement).disabled = this.currentPageIndex === 0;
+    (document.getElementById('nextPageBtn') as HTMLButtonElement).disabled = this.currentPageIndex === this.pages.length - 1;
+    (document.getElementById('deletePageBtn') as HTMLButtonElement).disabled = this.pages.length === 1;
+
+    container.querySelector('.page-thumb.active')?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }
+
+  private scheduleThumbnailUpdate() {
+    // The mirrored view isn't part of the page
+    if (this.isMirroring) return;
+
+    if (this.thumbnailTimer !== null) {
+      clearTimeout(this.thumbnailTimer);
+    }
+
+    this.thumbnailTimer = window.setTimeout(() => {
+      this.thumbnailTimer = null;
+      const item = document.querySelector(`.page-thumb[data-page-id="${this.currentPage.id}"]`);
+      const thumbnail = item?.querySelector('canvas');
+      if (thumbnail) {
+        this.storeCurrentPage();
+        this.drawThumbnail(this.currentPage, thumbnail);
+      }
+    }, this.thumbnailDelay);
+  }
+
+  // A scaled-down copy of what the page showed in the window
+  private drawThumbnail(page: WhiteboardPage, thumbnail: HTMLCanvasElement) {
+    const scale = this.thumbnailWidth / window.innerWidth;
+    const ctx = thumbnail.getContext('2d')!;
+    const ratio = resizeCanvasForDisplay(thumbnail, ctx, this.thumbnailWidth, Math.round(window.innerHeight * scale));
+
+    ctx.fillStyle = page.backgroundColor;
+    ctx.fillRect(0, 0, thumbnail.width, thumbnail.height);
+
+    const zoom = ratio * scale * page.view.zoom;
+    ctx.setTransform(zoom, 0, 0, zoom, ratio * scale * page.view.x, ratio * scale * page.view.y);
+
+    const engine = new DrawingEngine(ctx);
+    for (const obj of page.objects) {
+      engine.drawObject(obj);
+    }
+  }
+
+  // Overlay sync
+  private setupOverlaySync() {
+    const api = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!api || !api.onReceiveObjects) return;
+
+    api.onReceiveObjects((objects) => this.insertObjects(objects, 'Receive'));
+    api.onMirrorState((state) => this.applyMirrorState(state));
+  }
+
+  // Sends the selection, or the whole page when nothing is selected, to the overlay under the pointer
+  private sendToOverlay() {
+    const api = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!api || !api.sendToOverlay || this.isMirroring) return;
+
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+    this.commitRestyle();
+
+    const objects = this.selectedObjects.length > 0 ? this.selectedObjects : this.drawnObjects;
+    if (objects.length === 0) return;
+
+    api.sendToOverlay(structuredClone(objects));
+  }
+
+  // Adds objects sent from the overlay, pasted or dropped to the current page as one undoable step,
+  // centred on the given board point or else in view
+  private insertObjects(objects: DrawObject[], label: string, center: { x: number; y: number } | null = null) {
+    // Pasted and received objects come from outside this window, so skip anything that can't be drawn
+    objects = objects.filter(isValidObject);
+    if (objects.length === 0) return;
+
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+
+    // Ids only matter to the overlay, which hands out new ones when objects come back
+    for (const obj of objects) {
+      delete obj.id;
+      this.engine.updateObjectBounds(obj);
+    }
+
+    const bounds = this.engine.getObjectsBounds(objects);
+    if (bounds) {
+      const target = center || this.toBoardPoint(window.innerWidth / 2, window.innerHeight / 2);
+      for (const obj of objects) {
+        this.engine.moveObject(obj, target.x - (bounds.x + bounds.width / 2), target.y - (bounds.y + bounds.height / 2));
+      }
+    }
+
+    const before = this.drawnObjects.slice();
+    this.drawnObjects = this.drawnObjects.concat(objects);
+    this.history.push(new ObjectListCommand(label, this.objectListTarget, before, this.drawnObjects.slice()));
+
+    if (this.currentTool === 'select') {
+      this.selectedObjects = objects.slice();
+    }
+    this.redrawCanvas();
+  }
+
+  // Clipboard
+
+  private copySelection(cut: boolean) {
+    const api = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!api || !api.writeClipboard) return;
+
+    this.commitRestyle();
+    if (this.selectedObjects.length === 0) return;
+
+    api.writeClipboard({ text: serializeObjects(this.selectedObjects) });
+    if (cut) {
+      this.deleteSelectedObjects('Cut');
+    }
+  }
+
+  // The current view as a picture, for pasting into other apps
+  private copyCanvasImage() {
+    const api = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!api || !api.writeClipboard) return;
+
+    this.redrawCanvas(false);
+    const dataUrl = canvasToPng(this.canvas, this.exportScale);
+    this.redrawCanvas();
+
+    api.writeClipboard({ image: dataUrl });
+  }
+
+  // Objects copied in either window, or else a picture as an image object
+  private async paste() {
+    const api = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!api || !api.readClipboard || this.isMirroring) return;
+
+    const contents = await api.readClipboard();
+    const objects = parseSerializedObjects(contents.text);
+    if (objects) {
+      this.insertObjects(objects, 'Paste');
+      return;
+    }
+
+    if (contents.image) {
+      await this.insertImage(contents.image, 'Paste');
+    }
+  }
+
+  // Images
+
+  // Inserts a picture no larger than most of the view, at a board point or in the middle of the view
+  private async insertImage(src: string, label: string, center: { x: number; y: number } | null = null) {
+    try {
+      const maxWidth = window.innerWidth * 0.8 / this.view.zoom;
+      const maxHeight = window.innerHeight * 0.8 / this.view.zoom;
+      const image = await this.engine.createImageObject(src, maxWidth, maxHeight);
+      this.insertObjects([image], label, center);
+    } catch (error) {
+      console.error('Could not insert the image:', error);
+    }
+  }
+
+  private async openImage() {
+    const api = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!api || !api.openImage || this.isMirroring) return;
+
+    const result = await api.openImage();
+    if (result.success && result.dataUrl) {
+      await this.insertImage(result.dataUrl, 'Insert Image');
+    } else if (!result.canceled) {
+      console.error('Failed to open image:', result.error);
+    }
+  }
+
+  // Image files dropped on the board are inserted where they land
+  private setupImageDrop() {
+    window.addEventListener('dragover', (e) => {
+      // Without this the window would navigate to the dropped file
+      e.preventDefault();
+      if (e.dataTransfer) {
+        e.dataTransfer.dropEffect = this.isMirroring ? 'none' : 'copy';
+      }
+    });
+
+    window.addEventListener('drop', async (e) => {
+      e.preventDefault();
+      if (this.isMirroring) return;
+
+      const files = Array.from(e.dataTransfer?.files || []).filter(file => file.type.startsWith('image/'));
+      const point = this.toBoardPoint(e.clientX, e.clientY);
+      const offset = 20 / this.view.zoom;
+
+      for (let i = 0; i < files.length; i++) {
+        let src: string;
+        try {
+          src = await readFileAsDataUrl(files[i]);
+        } catch (error) {
+          // Still insert the other files
+          console.error('Could not read the dropped file:', error);
+          continue;
+        }
+        await this.insertImage(src, 'Drop Image', { x: point.x + i * offset, y: point.y + i * offset });
+      }
+    });
+  }
+
+  private setMirroring(enabled: boolean) {
+    const api = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!api || !api.setMirrorMode || enabled === this.isMirroring) return;
+
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+    this.clearSelection();
+
+    this.isMirroring = enabled;
+    document.body.classList.toggle('mirroring', enabled);
+    document.getElementById('mirrorBtn')!.classList.toggle('active', enabled);
+    api.setMirrorMode(enabled);
+
+    this.updatePanCursor();
+
+    if (enabled) {
+      this.mirrorReturnView = { ...this.view };
+      this.mirroredObjects = [];
+      this.mirrorArea = null;
+      this.redrawCanvas();
+    } else {
+      this.view = { ...this.mirrorReturnView };
+      this.onViewChanged();
+    }
+  }
+
+  private applyMirrorState(state: MirrorState) {
+    if (!this.isMirroring) return;
+
+    for (const obj of state.objects) {
+      this.engine.moveObject(obj, -state.area.x, -state.area.y);
+    }
+    this.mirroredObjects = state.objects;
+    this.pruneImages();
+
+    // Fit the overlays' area when mirroring starts or the displays change
+    const area = { x: 0, y: 0, width: state.area.width, height: state.area.height };
+    const areaChanged = !this.mirrorArea || this.mirrorArea.width !== area.width || this.mirrorArea.height !== area.height;
+    this.mirrorArea = area;
+
+    if (areaChanged) {
+      this.fitRect(area);
+    } else {
+      this.redrawCanvas();
     }
   }
 
@@ -713,60 +1910,175 @@ class WhiteboardApp {
     const undoBtn = document.getElementById('undoBtn')!;
     const redoBtn = document.getElementById('redoBtn')!;
 
-    if (this.historyStep > 0) {
+    if (this.history.canUndo()) {
       undoBtn.removeAttribute('disabled');
     } else {
       undoBtn.setAttribute('disabled', 'true');
     }
 
-    if (this.historyStep < this.history.length - 1) {
+    if (this.history.canRedo()) {
       redoBtn.removeAttribute('disabled');
     } else {
       redoBtn.setAttribute('disabled', 'true');
     }
   }
 
+  // Sessions
+  private createSessionDocument(): SessionDocument {
+    const pages = this.pages.map((page, index) => index === this.currentPageIndex
+      ? { background: this.backgroundColor, grid: this.gridType, objects: structuredClone(this.drawnObjects) }
+      : { background: page.backgroundColor, grid: page.gridType, objects: structuredClone(page.objects) });
+
+    return {
+      format: 'spencil',
+      version: 1,
+      canvas: { width: window.innerWidth, height: window.innerHeight },
+      ...pages[0],
+      pages: pages.slice(1)
+    };
+  }
+
+  // Saves to the current session file, or asks where to save the first time (and for Save As)
+  private async saveSession(saveAs = false) {
+    const api = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!api || !api.saveSession) return;
+
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+    this.commitRestyle();
+
+    try {
+      const session = this.createSessionDocument();
+      const result = saveAs || !this.sessionFilePath
+        ? await api.saveSessionAs(session)
+        : await api.saveSession(session, this.sessionFilePath);
+
+      if (result.success) {
+        this.sessionFilePath = result.filePath || null;
+        console.log('Session saved to:', result.filePath);
+      } else if (!result.canceled) {
+        alert(`Could not save the session: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Error saving session:', error);
+    }
+  }
+
+  private async openSession() {
+    const api = (window as any).electronAPI as WhiteboardElectronAPI;
+    if (!api || !api.openSession || this.isMirroring) return;
+
+    const hasDrawing = this.drawnObjects.length > 0 || this.pages.some(page => page.objects.length > 0);
+    if (hasDrawing && !confirm('Opening a session replaces every page. Continue?')) return;
+
+    try {
+      const result = await api.openSession();
+
+      if (result.success && result.document) {
+        this.loadSessionDocument(result.document);
+        this.sessionFilePath = result.filePath || null;
+      } else if (!result.canceled) {
+        alert(`Could not open the session: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Error opening session:', error);
+    }
+  }
+
+  // Pages come back with fresh undo histories. Overlay sessions open as a single page.
+  private loadSessionDocument(session: SessionDocument) {
+    if (this.isEditingText) {
+      this.finalizeTextInput();
+    }
+    this.clearSelection();
+
+    const extraPages = Array.isArray(session.pages) ? session.pages : [];
+    this.pages = [session, ...extraPages].map(source => {
+      const page = this.createPage();
+
+      // Skip anything this version can't draw, and rebuild bounds in case fonts differ on this machine
+      page.objects = (Array.isArray(source.objects) ? source.objects : []).filter(isValidObject);
+      for (const obj of page.objects) {
+        delete obj.createdAt;
+        this.engine.updateObjectBounds(obj);
+      }
+
+      // The board is always opaque, so a transparent overlay background opens as white
+      const background = source.background;
+      page.backgroundColor = typeof background === 'string' && background !== 'transparent' && CSS.supports('color', background)
+        ? background
+        : '#ffffff';
+      page.gridType = source.grid === 'dots' || source.grid === 'lines' ? source.grid : 'none';
+      return page;
+    });
+
+    this.showPage(0);
+    this.pruneImages();
+  }
+
   // Background management
   private setBackgroundColor(color: string) {
-    this.backgroundColor = color;
-
-    // Save current drawing
-    const tempImageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+    const previous = this.backgroundColor;
+    if (color === previous) return;
+
+    this.applyBackgroundColor(color);
+    this.history.push({
+      label: 'Background',
+      undo: () => this.applyBackgroundColor(previous),
+      redo: () => this.applyBackgroundColor(color)
+    });
+    this.saveSettings();
+  }
 
-    // Clear and set new background
+  private applyBackgroundColor(color: string) {
+    this.backgroundColor = color;
     document.body.style.backgroundColor = color;
-    this.fillBackground();
-
-    // Restore drawing
-    this.ctx.putImageData(tempImageData, 0, 0);
-    this.saveState();
+    this.redrawCanvas();
+    this.scheduleThumbnailUpdate();
   }
 
   private setGridType(type: 'none' | 'dots' | 'lines') {
     this.gridType = type;
-    document.body.classList.remove('grid-dots', 'grid-lines');
-
-    if (type === 'dots') {
-      document.body.classList.add('grid-dots');
-    } else if (type === 'lines') {
-      document.body.classList.add('grid-lines');
-    }
+    this.redrawCanvas();
+    this.scheduleThumbnailUpdate();
+    this.saveSettings();
   }
 
   // Utility methods
   private clear() {
+    if (this.drawnObjects.length === 0) return;
+
     if (confirm('Are you sure you want to clear the whiteboard?')) {
-      this.fillBackground();
-      this.saveState();
+      this.clearSelection();
+      this.history.push(new ObjectListCommand('Clear', this.objectListTarget, this.drawnObjects.slice(), []));
+      this.drawnObjects = [];
+      this.redrawCanvas();
     }
   }
 
+  private setExportScale(scale: ExportScale) {
+    this.exportScale = scale;
+    document.getElementById('exportScaleBtn')?.classList.toggle('active', scale === '1x');
+    this.saveSettings();
+  }
+
   private async saveImage() {
     try {
       const electronAPI = (window as any).electronAPI as WhiteboardElectronAPI;
-      if (electronAPI && electronAPI.saveScreenshot) {
-        const dataUrl = this.canvas.toDataURL('image/png');
-        const result = await electronAPI.saveScreenshot(dataUrl);
+      if (electronAPI && electronAPI.chooseExportTarget) {
+        // PNG is the current view; SVG is the current page and PDF every page, each cropped to its content
+        const result = await saveExport(electronAPI, {
+          png: () => {
+            // Render without the selection frame so it doesn't end up in the image
+            this.redrawCanvas(false);
+            const dataUrl = canvasToPng(this.canvas, this.exportScale);
+            this.redrawCanvas();
+            return dataUrl;
+          },
+          svg: () => this.exporter.toSvg(this.getCurrentExportPage()),
+          pdf: () => this.exporter.toPdf(this.getExportPages())
+        });
 
         // Visual feedback
         const screenshotBtn = document.getElementById('screenshotBtn')!;
@@ -784,110 +2096,55 @@ class WhiteboardApp {
     }
   }
 
-  // Selection/Move tool helper methods
-  private clearSelection() {
-    this.selectedImageData = null;
-    this.selectionRect = null;
-    this.isSelecting = false;
-    this.isDraggingSelection = false;
-  }
-
-  private isInsideSelection(x: number, y: number): boolean {
-    if (!this.selectionRect) return false;
-    return x >= this.selectionRect.x &&
-           x <= this.selectionRect.x + this.selectionRect.width &&
-           y >= this.selectionRect.y &&
-           y <= this.selectionRect.y + this.selectionRect.height;
-  }
-
-  private drawSelectionRect(x1: number, y1: number, x2: number, y2: number) {
-    if (!this.savedImageData) {
-      this.savedImageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+  // The current page, or the overlays' drawing while mirroring
+  private getCurrentExportPage(): ExportPage {
+    if (this.isMirroring && this.mirrorArea) {
+      return { area: this.mirrorArea, background: this.backgroundColor, objects: this.mirroredObjects };
     }
-
-    this.ctx.putImageData(this.savedImageData, 0, 0);
-
-    const x = Math.min(x1, x2);
-    const y = Math.min(y1, y2);
-    const width = Math.abs(x2 - x1);
-    const height = Math.abs(y2 - y1);
-
-    this.ctx.strokeStyle = '#4287f5';
-    this.ctx.lineWidth = 2;
-    this.ctx.setLineDash([5, 5]);
-    this.ctx.strokeRect(x, y, width, height);
-    this.ctx.setLineDash([]);
+    this.storeCurrentPage();
+    return this.getExportPage(this.currentPage);
   }
 
-  private finalizeSelection(x: number, y: number, width: number, height: number) {
-    this.selectionRect = { x, y, width, height };
-    this.selectedImageData = this.ctx.getImageData(x, y, width, height);
-
-    // Clear the selected area
-    this.ctx.clearRect(x, y, width, height);
-    this.fillBackground();
-
-    if (this.savedImageData) {
-      // Restore everything except selected area
-      this.ctx.putImageData(this.savedImageData, 0, 0);
-      this.ctx.clearRect(x, y, width, height);
-      this.fillBackgroundRect(x, y, width, height);
-    }
-
-    // Draw selection with dashed border
-    if (this.selectedImageData) {
-      this.ctx.putImageData(this.selectedImageData, x, y);
+  // Every page, or just the overlays' drawing while mirroring
+  private getExportPages(): ExportPage[] {
+    if (this.isMirroring && this.mirrorArea) {
+      return [this.getCurrentExportPage()];
     }
-    this.ctx.strokeStyle = '#4287f5';
-    this.ctx.lineWidth = 2;
-    this.ctx.setLineDash([5, 5]);
-    this.ctx.strokeRect(x, y, width, height);
-    this.ctx.setLineDash([]);
-
-    this.savedImageData = null;
+    this.storeCurrentPage();
+    return this.pages.map(page => this.getExportPage(page));
   }
 
-  private fillBackgroundRect(x: number, y: number, width: number, height: number) {
-    this.ctx.fillStyle = this.backgroundColor;
-    this.ctx.fillRect(x, y, width, height);
+  // The page's objects with a margin around them, or what the page shows in the window when it's empty.
+  // The grid is left out, it's a drawing aid rather than part of the drawing.
+  private getExportPage(page: WhiteboardPage): ExportPage {
+    const margin = 40;
+    const bounds = this.engine.getObjectsBounds(page.objects);
+    const area = bounds
+      ? { x: bounds.x - margin, y: bounds.y - margin, width: bounds.width + margin * 2, height: bounds.height + margin * 2 }
+      : {
+        x: -page.view.x / page.view.zoom,
+        y: -page.view.y / page.view.zoom,
+        width: window.innerWidth / page.view.zoom,
+        height: window.innerHeight / page.view.zoom
+      };
+
+    return { area, background: page.backgroundColor, objects: page.objects };
   }
 
-  private moveSelection(newX: number, newY: number) {
-    if (!this.selectionRect || !this.selectedImageData) return;
+  private clearSelection() {
+    this.commitRestyle();
 
-    const oldRect = this.selectionRect;
-    this.selectionRect = {
-      x: newX,
-      y: newY,
-      width: oldRect.width,
-      height: oldRect.height
-    };
+    const hadSelection = this.isSelecting || this.selectedObjects.length > 0;
+    this.selectedObjects = [];
+    this.croppingObject = null;
+    this.isSelecting = false;
+    this.isDraggingObject = false;
+    this.activeHandle = null;
+    this.transformStart = null;
 
-    // Redraw canvas
-    if (this.savedImageData) {
-      this.ctx.putImageData(this.savedImageData, 0, 0);
-      this.ctx.clearRect(oldRect.x, oldRect.y, oldRect.width, oldRect.height);
-      this.fillBackgroundRect(oldRect.x, oldRect.y, oldRect.width, oldRect.height);
-    } else {
-      this.fillBackground();
+    if (hadSelection) {
+      this.redrawCanvas();
     }
-
-    // Draw selection at new position
-    this.ctx.putImageData(this.selectedImageData, newX, newY);
-    this.ctx.strokeStyle = '#4287f5';
-    this.ctx.lineWidth = 2;
-    this.ctx.setLineDash([5, 5]);
-    this.ctx.strokeRect(newX, newY, oldRect.width, oldRect.height);
-    this.ctx.setLineDash([]);
-  }
-
-  private pasteSelection() {
-    if (!this.selectionRect || !this.selectedImageData) return;
-
-    // Finalize the paste
-    this.ctx.putImageData(this.selectedImageData, this.selectionRect.x, this.selectionRect.y);
-    this.clearSelection();
-    this.saveState();
   }
 }
 